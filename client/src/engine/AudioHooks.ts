@@ -40,10 +40,19 @@ export type AudioEvent =
   | 'door_open'
   | 'door_close'
   | 'lever_toggle'
+  | 'button_press'
+  | 'plate_press'
+  | 'plate_release'
+  | 'winch_start'
+  | 'crate_push'
+  | 'hazard_off'
   | 'pickup_item'
   | 'pickup_health'
   | 'ambient_wind'
-  | 'ambient_water';
+  | 'ambient_water'
+  // Puzzles
+  | 'objective_complete'
+  | 'puzzle_complete';
 
 export interface AudioEventData {
   event: AudioEvent;
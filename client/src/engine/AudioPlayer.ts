@@ -12,9 +12,8 @@ class AudioPlayer {
 
   init(): void {
     // Create audio context on user interaction
-    if (!this.ctx) {
-      this.ctx = new AudioContext();
-    }
+    if (this.ctx) return;
+    this.ctx = new AudioContext();
 
     // Listen to all audio events
     audioHooks.on('*', (data) => {
@@ -67,6 +66,32 @@ class AudioPlayer {
       case 'door_open':
         this.playDoorOpen(volume);
         break;
+      case 'door_close':
+        this.playDoorClose(volume);
+        break;
+      case 'lever_toggle':
+      case 'button_press':
+        this.playClick(volume, 900);
+        break;
+      case 'plate_press':
+        this.playClick(volume * 0.8, 300);
+        break;
+      case 'plate_release':
+        this.playClick(volume * 0.5, 220);
+        break;
+      case 'winch_start':
+      case 'crate_push':
+        this.playNoiseBurst(volume * 0.4, 0.15);
+        break;
+      case 'hazard_off':
+        this.playPowerDown(volume);
+        break;
+      case 'objective_complete':
+        this.playPickup(volume);
+        break;
+      case 'puzzle_complete':
+        this.playPickup(volume * 1.3);
+        break;
       case 'player_jump':
         this.playJump(volume * 0.5);
         break;
@@ -298,6 +323,59 @@ class AudioPlayer {
     osc.stop(this.ctx.currentTime + 0.3);
   }
 
+  private playDoorClose(volume: number): void {
+    if (!this.ctx) return;
+    const osc = this.ctx.createOscillator();
+    const gain = this.ctx.createGain();
+
+    osc.type = 'square';
+    osc.frequency.setValueAtTime(200, this.ctx.currentTime);
+    osc.frequency.exponentialRampToValueAtTime(90, this.ctx.currentTime + 0.25);
+
+    gain.gain.setValueAtTime(volume * 0.2, this.ctx.currentTime);
+    gain.gain.exponentialRampToValueAtTime(0.001, this.ctx.currentTime + 0.25);
+
+    osc.connect(gain);
+    gain.connect(this.ctx.destination);
+    osc.start();
+    osc.stop(this.ctx.currentTime + 0.25);
+  }
+
+  private playClick(volume: number, frequency: number): void {
+    if (!this.ctx) return;
+    const osc = this.ctx.createOscillator();
+    const gain = this.ctx.createGain();
+
+    osc.type = 'square';
+    osc.frequency.setValueAtTime(frequency, this.ctx.currentTime);
+
+    gain.gain.setValueAtTime(volume * 0.15, this.ctx.currentTime);
+    gain.gain.exponentialRampToValueAtTime(0.001, this.ctx.currentTime + 0.05);
+
+    osc.connect(gain);
+    gain.connect(this.ctx.destination);
+    osc.start();
+    osc.stop(this.ctx.currentTime + 0.05);
+  }
+
+  private playPowerDown(volume: number): void {
+    if (!this.ctx) return;
+    const osc = this.ctx.createOscillator();
+    const gain = this.ctx.createGain();
+
+    osc.type = 'sawtooth';
+    osc.frequency.setValueAtTime(600, this.ctx.currentTime);
+    osc.frequency.exponentialRampToValueAtTime(60, this.ctx.currentTime + 0.4);
+
+    gain.gain.setValueAtTime(volume * 0.15, this.ctx.currentTime);
+    gain.gain.exponentialRampToValueAtTime(0.001, this.ctx.currentTime + 0.4);
+
+    osc.connect(gain);
+    gain.connect(this.ctx.destination);
+    osc.start();
+    osc.stop(this.ctx.currentTime + 0.4);
+  }
+
   private playJump(volume: number): void {
     if (!this.ctx) return;
     const osc = this.ctx.createOscillator();
@@ -379,6 +379,14 @@ export class Character {
     this.updateVisualPosition();
   }
 
+  /**
+   * Move without touching facing or animation state (used for interpolation)
+   */
+  setPosition(position: WorldPos): void {
+    this.position = { ...position };
+    this.updateVisualPosition();
+  }
+
   update(deltaTime: number): void {
     const isMoving = this.state === 'walk' || this.state === 'run';
     const speedMult = this.state === 'run' ? 1.8 : 1;
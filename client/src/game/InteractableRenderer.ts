@@ -6,6 +6,7 @@
 import { Container, Graphics, Text, TextStyle } from 'pixi.js';
 import { worldToScreen, getDepthValue } from '../engine/isometric';
 import type { InteractableState, WorldPos, Role } from '@shared/types';
+import { getInteractionPrompt } from '@shared/permissions';
 
 const COLORS = {
   door: { closed: 0x8b4513, open: 0x654321, locked: 0x4a4a4a },
@@ -50,6 +51,14 @@ export class InteractableRenderer {
     this.updateVisualPosition();
   }
 
+  /**
+   * Move without redrawing (used for interpolation)
+   */
+  setPosition(position: WorldPos): void {
+    this.position = { ...position };
+    this.updateVisualPosition();
+  }
+
   private render(): void {
     this.graphics.clear();
 
@@ -357,74 +366,10 @@ export class InteractableRenderer {
   }
 
   /**
-   * Check if a role can interact with this interactable
-   */
-  static canInteract(type: InteractableState['type'], state: Record<string, unknown>, role: Role): boolean {
-    switch (type) {
-      case 'crate':
-        return role === 'panda';
-
-      case 'winch':
-        return role === 'panda';
-
-      case 'camera_node':
-        return role === 'dog';
-
-      case 'lever': {
-        const leverState = state as { requiresStrength?: boolean };
-        if (leverState.requiresStrength && role === 'dog') {
-          return false;
-        }
-        return true;
-      }
-
-      case 'door': {
-        const doorState = state as { locked?: boolean; requiresHeavy?: boolean };
-        if (doorState.locked) return false;
-        if (doorState.requiresHeavy && role === 'dog') return false;
-        return true;
-      }
-
-      case 'pressure_plate':
-        // Pressure plates are passive - check weight
-        return false;
-
-      case 'button':
-      case 'platform':
-        return true;
-
-      case 'hazard':
-        return false;
-
-      default:
-        return true;
-    }
-  }
-
-  /**
-   * Get interaction prompt text
+   * Get interaction prompt text, or null if the role can't use it
    */
   getPromptText(role: Role): string | null {
-    if (!InteractableRenderer.canInteract(this.type, this.state, role)) {
-      return null;
-    }
-
-    switch (this.type) {
-      case 'door':
-        return (this.state as { open: boolean }).open ? 'Close Door' : 'Open Door';
-      case 'lever':
-        return 'Pull Lever';
-      case 'button':
-        return 'Press Button';
-      case 'crate':
-        return 'Push Crate';
-      case 'winch':
-        return 'Operate Winch';
-      case 'camera_node':
-        return 'View Camera';
-      default:
-        return 'Interact';
-    }
+    return getInteractionPrompt(role, this.type, this.state);
   }
 
   getState(): InteractableState {
@@ -6,18 +6,26 @@
 import { Container } from 'pixi.js';
 import { GameApplication } from '../engine/Application';
 import { Camera } from '../engine/Camera';
+import { ParticleSystem, ParticleEffects } from '../engine/ParticleSystem';
+import { audioHooks } from '../engine/AudioHooks';
+import { audioPlayer } from '../engine/AudioPlayer';
 import { Tilemap } from '../engine/Tilemap';
 import { Input } from '../engine/Input';
 import { Character } from './Character';
 import { InteractableRenderer } from './InteractableRenderer';
 import { PingRenderer } from './PingRenderer';
 import { networkClient, type NetworkEvent } from '@net/NetworkClient';
+import { ClientPrediction } from '@net/Prediction';
+import { SnapshotBuffer } from '@net/SnapshotBuffer';
 import { LAYERS, FIXED_TIMESTEP, CANVAS_WIDTH, CANVAS_HEIGHT } from '../engine/constants';
+import { SURVEILLANCE } from '@shared/constants';
 import type { TileData as EngineTileData } from '../engine/types';
-import type { WorldPos, Role, EntityState, GameState, InteractableState, PingMarker, InputState as SharedInputState, TileData as SharedTileData, PuzzleState, PingType } from '@shared/types';
+import type { WorldPos, Role, EntityState, GameState, InteractableState, PingMarker, InputState as SharedInputState, TileData as SharedTileData, PuzzleState, PingType, LevelData, GameEvent } from '@shared/types';
 import { getLevel } from '@shared/levels';
-
-const INTERACTION_RANGE = 1.5;
+import { quantizeInput } from '@shared/codec';
+import { getPlatformSurfaces, getInteractableObstacles, getCharacterObstacles } from '@shared/movement';
+import { canReach, getReachDistance } from '@shared/interaction';
+import { getPrimaryAction } from '@shared/permissions';
 
 export class MultiplayerScene {
   private app: GameApplication;
@@ -29,6 +37,13 @@ export class MultiplayerScene {
   // Characters
   private characters: Map<string, Character> = new Map();
   private localRole: Role | null = null;
+  private prediction = new ClientPrediction();
+
+  // Level the server picked for this room
+  private levelData: LevelData | null = null;
+
+  // Remote characters and moving platforms are drawn slightly in the past
+  private snapshots = new SnapshotBuffer();
 
   // Interactables
   private interactables: Map<string, InteractableRenderer> = new Map();
@@ -37,9 +52,21 @@ export class MultiplayerScene {
   // Ping markers
   private pings: Map<string, PingRenderer> = new Map();
 
+  // Effects and notifications for the server's game events
+  private particles: ParticleSystem;
+  private notificationHandler: ((message: string, type: 'success' | 'info' | 'warning') => void) | null = null;
+  private fullStateTick = 0;  // Events up to here are already part of the state we showed
+
+  // Camera node Dog is looking through (server-authoritative)
+  private viewingCamera: { id: string; position: WorldPos; rotation: number } | null = null;
+  private cameraRotateDirection = 0;
+  private zoomBeforeViewing: number | null = null;
+
   // State from server
   private _serverTick = 0;
   private puzzleStates: PuzzleState[] = [];
+  private items: string[] = [];  // The local character's, from puzzle rewards
+  private resyncPending = false;  // Next state replaces everything (after a reconnect)
 
   // Timing
   private accumulator = 0;
@@ -53,6 +80,7 @@ export class MultiplayerScene {
     this.camera = new Camera();
     this.input = new Input();
     this.entityLayer = app.getLayer(LAYERS.ENTITIES);
+    this.particles = new ParticleSystem(app.getLayer(LAYERS.EFFECTS));
     this.tilemap = new Tilemap(
       app.getLayer(LAYERS.GROUND),
       app.getLayer(LAYERS.GROUND_DECOR)
@@ -64,9 +92,10 @@ export class MultiplayerScene {
 
     // Set up network listeners
     this.setupNetworkListeners();
+    audioPlayer.init();
 
-    // Load a basic test level
-    this.loadTestLevel();
+    // Build the tilemap for the room's level
+    this.loadLevel(networkClient.getLevelId());
 
     // Start game loop
     this.lastTime = performance.now();
@@ -84,12 +113,26 @@ export class MultiplayerScene {
   private handleNetworkEvent(event: NetworkEvent): void {
     switch (event.type) {
       case 'state_update': {
+        if (this.resyncPending) {
+          this.resyncPending = false;
+          this.applyFullState(event.data as GameState);
+          break;
+        }
         const data = event.data as { tick: number; entities: EntityState[]; interactables: InteractableState[]; pings: PingMarker[] };
         this.applyStateUpdate(data);
         break;
       }
+      case 'session_resumed': {
+        // Inputs sent while disconnected were lost - restart prediction from the server
+        this.resyncPending = true;
+        break;
+      }
       case 'game_start': {
-        const data = event.data as { gameState: GameState };
+        // Also sent when the room moves on to the next level
+        const data = event.data as { levelId: string; gameState: GameState };
+        if (data.levelId !== this.levelData?.id) {
+          this.loadLevel(data.levelId);
+        }
         this.applyFullState(data.gameState);
         break;
       }
@@ -103,11 +146,108 @@ export class MultiplayerScene {
         this.removePing(data.pingId);
         break;
       }
+      case 'game_events': {
+        const data = event.data as { events: GameEvent[] };
+        this.handleGameEvents(data.events);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Route the server's game events to sounds, particles and notifications
+   */
+  private handleGameEvents(events: GameEvent[]): void {
+    // A solved puzzle gets one notification rather than one per objective as well
+    const solvedPuzzles = new Set<string>();
+    for (const event of events) {
+      if (event.kind === 'puzzle_completed') solvedPuzzles.add(event.puzzleId);
+    }
+
+    for (const event of events) {
+      // Already shown by a full state, e.g. after reconnecting
+      if (event.tick <= this.fullStateTick) continue;
+
+      switch (event.kind) {
+        case 'door_opened':
+          audioHooks.emit('door_open', { position: event.position });
+          ParticleEffects.dust(this.particles, event.position);
+          break;
+        case 'door_closed':
+          audioHooks.emit('door_close', { position: event.position });
+          ParticleEffects.dust(this.particles, event.position);
+          break;
+        case 'lever_toggled':
+          audioHooks.emit('lever_toggle', { position: event.position });
+          break;
+        case 'button_pressed':
+          audioHooks.emit('button_press', { position: event.position });
+          break;
+        case 'plate_pressed':
+          audioHooks.emit('plate_press', { position: event.position });
+          this.particles.emitBurst(event.position, 8, 0x44aa44, 2, 0.4, { size: 3, fadeOut: true });
+          break;
+        case 'plate_released':
+          audioHooks.emit('plate_release', { position: event.position });
+          break;
+        case 'winch_started':
+          audioHooks.emit('winch_start', { position: event.position });
+          break;
+        case 'crate_moved':
+          audioHooks.emit('crate_push', { position: event.position });
+          ParticleEffects.dust(this.particles, event.position);
+          break;
+        case 'hazard_disabled':
+          audioHooks.emit('hazard_off', { position: event.position });
+          this.particles.emitBurst(event.position, 12, 0xffff00, 3, 0.5, { size: 3, fadeOut: true, shrink: true });
+          this.notificationHandler?.('Hazard switched off', 'info');
+          break;
+        case 'objective_completed': {
+          if (solvedPuzzles.has(event.puzzleId)) break;
+          const puzzle = this.levelData?.puzzles.find((p) => p.id === event.puzzleId);
+          const objective = puzzle?.objectives.find((o) => o.id === event.objectiveId);
+          audioHooks.emit('objective_complete');
+          this.notificationHandler?.(`✓ ${objective?.description ?? 'Objective complete'}`, 'info');
+          break;
+        }
+        case 'puzzle_completed': {
+          const puzzle = this.levelData?.puzzles.find((p) => p.id === event.puzzleId);
+          audioHooks.emit('puzzle_complete');
+          const localChar = this.getLocalCharacter();
+          if (localChar) {
+            ParticleEffects.pickup(this.particles, localChar.position, 0xfde047);
+          }
+          this.notificationHandler?.(`🎉 Puzzle Complete: ${puzzle?.name ?? event.puzzleId}`, 'success');
+          break;
+        }
+        case 'puzzle_available': {
+          const puzzle = this.levelData?.puzzles.find((p) => p.id === event.puzzleId);
+          this.notificationHandler?.(`New puzzle: ${puzzle?.name ?? event.puzzleId}`, 'info');
+          break;
+        }
+        case 'area_revealed': {
+          const centre = {
+            x: (event.zone.min.x + event.zone.max.x + 1) / 2,
+            y: (event.zone.min.y + event.zone.max.y + 1) / 2,
+            z: 0,
+          };
+          ParticleEffects.pickup(this.particles, centre, 0x00aaff);
+          this.notificationHandler?.(`Area revealed: ${event.name}`, 'info');
+          break;
+        }
+        case 'item_granted':
+          if (event.role !== this.localRole) break;
+          audioHooks.emit('pickup_item');
+          this.notificationHandler?.(`Received ${event.item}`, 'success');
+          break;
+      }
     }
   }
 
   private applyStateUpdate(data: { tick: number; entities: EntityState[]; interactables: InteractableState[]; pings: PingMarker[]; puzzleStates?: PuzzleState[] }): void {
     this._serverTick = data.tick;
+    this.pushSnapshot(data.tick, data.entities, data.interactables);
+    this.updateDynamicGeometry(data.entities, data.interactables);
 
     // Update puzzle states
     if (data.puzzleStates) {
@@ -126,7 +266,18 @@ export class MultiplayerScene {
         this.entityLayer.addChild(character.container);
       }
 
-      character.updateFromState(entityState);
+      if (character.role === this.localRole) {
+        this.items = entityState.items ?? [];
+
+        // Local character runs ahead of the server; fold the update into the prediction
+        this.prediction.reconcile(entityState);
+        const predicted = this.prediction.getRenderState();
+        if (predicted) {
+          character.updateFromState(predicted);
+        }
+      } else {
+        character.updateFromState(entityState);
+      }
     }
 
     // Update interactables
@@ -134,6 +285,44 @@ export class MultiplayerScene {
 
     // Update pings
     this.updatePings(data.pings);
+
+    // Don't let the fresh server positions show for a frame
+    this.applyInterpolation();
+  }
+
+  private pushSnapshot(tick: number, entities: EntityState[], interactables: InteractableState[]): void {
+    const positions = new Map<string, WorldPos>();
+    for (const entity of entities) {
+      if (entity.type !== this.localRole) {
+        positions.set(entity.id, entity.position);
+      }
+    }
+    for (const interactable of interactables) {
+      if (interactable.type === 'platform') {
+        positions.set(interactable.id, interactable.position);
+      }
+    }
+    this.snapshots.push(tick, positions);
+  }
+
+  private applyInterpolation(): void {
+    const now = performance.now();
+
+    for (const character of this.characters.values()) {
+      if (character.role === this.localRole) continue;
+      const position = this.snapshots.sample(character.id, now);
+      if (position) {
+        character.setPosition(position);
+      }
+    }
+
+    for (const renderer of this.interactables.values()) {
+      if (renderer.type !== 'platform') continue;
+      const position = this.snapshots.sample(renderer.id, now);
+      if (position) {
+        renderer.setPosition(position);
+      }
+    }
   }
 
   private updatePings(serverPings: PingMarker[]): void {
@@ -182,10 +371,61 @@ export class MultiplayerScene {
         renderer.updateState(state);
       }
     }
+
+    this.updateCameraView(serverInteractables);
+  }
+
+  /**
+   * Follow the server's camera node state - only Dog can view, so an active
+   * camera on the Dog client is our own view
+   */
+  private updateCameraView(serverInteractables: InteractableState[]): void {
+    if (this.localRole !== 'dog') return;
+
+    const active = serverInteractables.find(
+      i => i.type === 'camera_node' && (i.state as { active: boolean }).active
+    );
+
+    if (active && !this.viewingCamera) {
+      this.zoomBeforeViewing = this.camera.getZoom();
+      this.camera.setZoom(this.zoomBeforeViewing * SURVEILLANCE.ZOOM_OUT_FACTOR);
+    } else if (!active && this.viewingCamera) {
+      if (this.zoomBeforeViewing !== null) {
+        this.camera.setZoom(this.zoomBeforeViewing);
+      }
+      this.zoomBeforeViewing = null;
+      this.cameraRotateDirection = 0;
+    }
+
+    this.viewingCamera = active
+      ? { id: active.id, position: active.position, rotation: (active.state as { rotation: number }).rotation }
+      : null;
+  }
+
+  /**
+   * While viewing a camera, left/right turns it and interact steps back out
+   */
+  private handleCameraInput(inputState: ReturnType<Input['getState']>): void {
+    if (!this.viewingCamera) return;
+
+    if (inputState.interactPressed) {
+      networkClient.toggleSurveillance(false);
+      return;
+    }
+
+    const direction = Math.sign(inputState.moveX);
+    if (direction !== this.cameraRotateDirection) {
+      this.cameraRotateDirection = direction;
+      networkClient.interact(this.viewingCamera.id, 'rotate', { direction });
+    }
   }
 
   private applyFullState(state: GameState): void {
     this._serverTick = state.tick;
+    this.fullStateTick = state.tick;
+    this.snapshots.clear();
+    this.pushSnapshot(state.tick, state.entities, state.interactables);
+    this.updateDynamicGeometry(state.entities, state.interactables);
 
     // Clear existing characters
     for (const char of this.characters.values()) {
@@ -207,6 +447,11 @@ export class MultiplayerScene {
       const character = new Character(entityState.id, entityState.type, entityState.position, isLocal);
       this.characters.set(entityState.id, character);
       this.entityLayer.addChild(character.container);
+
+      if (isLocal) {
+        this.prediction.reset(entityState);
+        this.items = entityState.items ?? [];
+      }
     }
 
     // Create interactables from state
@@ -220,6 +465,17 @@ export class MultiplayerScene {
     }
   }
 
+  /**
+   * Give prediction the same platforms, solid objects and partner body the server collides with
+   */
+  private updateDynamicGeometry(entities: EntityState[], interactables: InteractableState[]): void {
+    const partner = entities.filter((entity) => entity.type !== this.localRole);
+    this.prediction.setDynamicGeometry(
+      getPlatformSurfaces(interactables),
+      [...getInteractableObstacles(interactables), ...getCharacterObstacles(partner)]
+    );
+  }
+
   private addPing(ping: PingMarker): void {
     if (!this.pings.has(ping.id)) {
       const renderer = new PingRenderer(ping);
@@ -237,16 +493,17 @@ export class MultiplayerScene {
     }
   }
 
-  private loadTestLevel(): void {
-    // Load the vertical slice level
-    const levelData = getLevel('vertical_slice');
+  private loadLevel(levelId: string | null): void {
+    const levelData = levelId ? getLevel(levelId) : null;
 
     if (!levelData) {
-      console.error('Failed to load vertical_slice level');
+      console.error(`Failed to load level: ${levelId}`);
       this.loadFallbackLevel();
       return;
     }
 
+    this.levelData = levelData;
+
     // Convert shared tile data to engine tile data
     const tiles: EngineTileData[][] = [];
     for (let y = 0; y < levelData.height; y++) {
@@ -262,6 +519,7 @@ export class MultiplayerScene {
     }
 
     this.tilemap.load(levelData.width, levelData.height, tiles);
+    this.prediction.setLevel(levelData);
     console.log(`Loaded level: ${levelData.name} (${levelData.width}x${levelData.height})`);
   }
 
@@ -330,7 +588,9 @@ export class MultiplayerScene {
 
     // Handle interaction input
     const inputState = this.input.getState();
-    if (inputState.interactPressed && this.nearbyInteractable) {
+    if (this.viewingCamera) {
+      this.handleCameraInput(inputState);
+    } else if (inputState.interactPressed && this.nearbyInteractable) {
       this.sendInteraction(this.nearbyInteractable.id);
     }
 
@@ -339,8 +599,15 @@ export class MultiplayerScene {
       this.handlePingInput(inputState);
     }
 
-    // Send input to server
+    // Send input to server and predict its result locally
     this.sendInput();
+    this.prediction.update(deltaTime);
+
+    const localChar = this.getLocalCharacter();
+    const predicted = this.prediction.getRenderState();
+    if (localChar && predicted) {
+      localChar.updateFromState(predicted);
+    }
 
     // Update local character animations
     for (const character of this.characters.values()) {
@@ -351,10 +618,19 @@ export class MultiplayerScene {
     for (const ping of this.pings.values()) {
       ping.update(deltaTime);
     }
-
-    // Update camera to follow local character
-    const localChar = this.getLocalCharacter();
-    if (localChar) {
+    this.particles.update(deltaTime);
+
+    // Update camera to follow local character, or look out from a camera node
+    if (this.viewingCamera) {
+      const angle = this.viewingCamera.rotation * Math.PI / 180;
+      const reach = SURVEILLANCE.CAMERA_VIEW_RADIUS / 2;
+      this.camera.setTarget({
+        x: this.viewingCamera.position.x + Math.cos(angle) * reach,
+        y: this.viewingCamera.position.y + Math.sin(angle) * reach,
+        z: 0,
+      });
+      this.camera.update(deltaTime);
+    } else if (localChar) {
       this.camera.setTarget(localChar.position);
       this.camera.update(deltaTime);
     }
@@ -368,8 +644,15 @@ export class MultiplayerScene {
       return;
     }
 
-    // Dog cannot interact with objects - only Panda can
-    if (this.localRole === 'dog') {
+    if (this.viewingCamera) {
+      this.nearbyInteractable = { id: this.viewingCamera.id, prompt: 'Leave Camera (←/→ to turn)' };
+      this.updateInteractionPrompt();
+      return;
+    }
+
+    // Same reach test the server applies, from where prediction has us
+    const self = this.prediction.getRenderState();
+    if (!self) {
       this.nearbyInteractable = null;
       this.updateInteractionPrompt();
       return;
@@ -381,16 +664,12 @@ export class MultiplayerScene {
       const prompt = renderer.getPromptText(this.localRole);
       if (!prompt) continue;
 
-      // Get interactable state to check position
-      const dx = renderer.container.x - localChar.container.x;
-      const dy = renderer.container.y - localChar.container.y;
-      // Use screen distance as approximation
-      const distance = Math.sqrt(dx * dx + dy * dy) / 32; // Approximate world units
+      const target = renderer.getState();
+      if (!canReach(self, target)) continue;
 
-      if (distance <= INTERACTION_RANGE) {
-        if (!nearest || distance < nearest.distance) {
-          nearest = { id, prompt, distance };
-        }
+      const distance = getReachDistance(self, target);
+      if (!nearest || distance < nearest.distance) {
+        nearest = { id, prompt, distance };
       }
     }
 
@@ -411,31 +690,14 @@ export class MultiplayerScene {
   }
 
   private sendInteraction(targetId: string): void {
-    // Determine action based on interactable type
     const renderer = this.interactables.get(targetId);
     if (!renderer) return;
 
-    let action = 'interact';
-    switch (renderer.type) {
-      case 'door':
-      case 'lever':
-        action = 'toggle';
-        break;
-      case 'button':
-        action = 'press';
-        break;
-      case 'crate':
-        action = 'push';
-        break;
-      case 'winch':
-        action = 'operate_start';
-        break;
-      case 'camera_node':
-        action = 'view';
-        break;
-    }
+    // Held actions, like winches, ride along with operateHold in the input stream
+    const primary = getPrimaryAction(renderer.type);
+    if (!primary || primary.hold) return;
 
-    networkClient.interact(targetId, action);
+    networkClient.interact(targetId, primary.action);
   }
 
   private handlePingInput(inputState: ReturnType<Input['getState']>): void {
@@ -458,20 +720,25 @@ export class MultiplayerScene {
   private sendInput(): void {
     const inputState = this.input.getState();
 
-    const sharedInput: SharedInputState = {
-      moveX: inputState.moveX,
-      moveY: inputState.moveY,
+    // Movement keys turn the camera while viewing one, so Dog stays put
+    const viewing = this.viewingCamera !== null;
+
+    // Quantized so prediction uses exactly the values the server receives
+    const sharedInput: SharedInputState = quantizeInput({
+      moveX: viewing ? 0 : inputState.moveX,
+      moveY: viewing ? 0 : inputState.moveY,
       run: inputState.run,
       jump: inputState.jump,
       interact: inputState.interactPressed,
       surveillance: inputState.block, // Repurpose block as surveillance for Dog
-      operateHold: inputState.block,  // Repurpose block as hold for Panda
-    };
+      operateHold: inputState.interact, // Panda holds interact to operate winches
+    });
 
     const localChar = this.getLocalCharacter();
     const position: WorldPos = localChar?.position || { x: 0, y: 0, z: 0 };
 
-    networkClient.sendInput(sharedInput, position);
+    const sequence = networkClient.sendInput(sharedInput, position);
+    this.prediction.applyInput(sequence, sharedInput);
   }
 
   private getLocalCharacter(): Character | undefined {
@@ -484,6 +751,9 @@ export class MultiplayerScene {
   }
 
   private render(_deltaTime: number): void {
+    // Place remote objects at their interpolated positions
+    this.applyInterpolation();
+
     // Apply camera to tilemap
     this.tilemap.applyCamera(this.camera);
 
@@ -496,6 +766,7 @@ export class MultiplayerScene {
     this.entityLayer.x = offsetX;
     this.entityLayer.y = offsetY;
     this.entityLayer.scale.set(zoom);
+    this.particles.applyCamera(offsetX, offsetY, zoom);
 
     // Sort entities by depth
     this.entityLayer.sortChildren();
@@ -542,6 +813,15 @@ export class MultiplayerScene {
       ping.destroy();
     }
     this.pings.clear();
+
+    this.particles.destroy();
+  }
+
+  /**
+   * Where puzzle notifications go, e.g. the puzzle HUD
+   */
+  setNotificationHandler(handler: (message: string, type: 'success' | 'info' | 'warning') => void): void {
+    this.notificationHandler = handler;
   }
 
   getNearbyInteractable(): { id: string; prompt: string } | null {
@@ -552,10 +832,25 @@ export class MultiplayerScene {
     return this.puzzleStates;
   }
 
+  getItems(): string[] {
+    return this.items;
+  }
+
+  getLevelData(): LevelData | null {
+    return this.levelData;
+  }
+
   getInput(): Input {
     return this.input;
   }
 
+  /**
+   * How far behind the newest server snapshot remote objects are drawn (ms)
+   */
+  setInterpolationDelay(delay: number): void {
+    this.snapshots.setDelay(delay);
+  }
+
   setMobileZoom(zoom: number): void {
     this.camera.setZoom(zoom);
   }
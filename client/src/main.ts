@@ -6,8 +6,9 @@ import { createLobby, type LobbyUI } from './ui/Lobby';
 import { createPuzzleHUD } from './ui/PuzzleHUD';
 import { createTouchControls, isMobileDevice } from './ui/TouchControls';
 import { createDebugOverlay } from './ui/DebugOverlay';
-import { createLevelCompleteModal } from './ui/LevelCompleteModal';
+import { createLevelCompleteModal, type LevelCompleteData } from './ui/LevelCompleteModal';
 import { createHelpScreen } from './ui/HelpScreen';
+import { createPauseMenu } from './ui/PauseMenu';
 import { DebugUI } from './ui/DebugUI';
 import { networkClient } from './net/NetworkClient';
 
@@ -94,6 +95,12 @@ async function startGame(container: HTMLElement): Promise<void> {
     const scene = new MultiplayerScene(app);
     await scene.init();
 
+    // ?delay=<ms> draws remote objects further behind the server, to smooth over a jittery connection
+    const interpolationDelay = Number(new URLSearchParams(window.location.search).get('delay'));
+    if (interpolationDelay > 0) {
+      scene.setInterpolationDelay(interpolationDelay);
+    }
+
     // Hide loading
     hideLoading(container);
 
@@ -106,6 +113,9 @@ async function startGame(container: HTMLElement): Promise<void> {
 
     // Create puzzle HUD (only on desktop - mobile doesn't need it cluttering the screen)
     const puzzleHud = isMobile ? null : createPuzzleHUD(container);
+    if (puzzleHud) {
+      scene.setNotificationHandler((message, type) => puzzleHud.showNotification(message, type));
+    }
 
     // Create touch controls for mobile (Panda player)
     const touchControls = isMobile ? createTouchControls(container) : null;
@@ -129,7 +139,7 @@ async function startGame(container: HTMLElement): Promise<void> {
     const debugUI = new DebugUI();
 
     // Create level complete modal
-    const levelCompleteModal = createLevelCompleteModal(container);
+    const levelCompleteModal = createLevelCompleteModal(container, () => networkClient.continueLevel());
 
     // Create help screen
     const helpScreen = createHelpScreen(container, scene.getLocalRole());
@@ -151,13 +161,70 @@ async function startGame(container: HTMLElement): Promise<void> {
 
     // Listen for level complete event
     networkClient.on('level_complete', (event) => {
-      const data = event.data as { puzzlesCompleted: number; totalPuzzles: number; timeElapsed: number };
+      const data = event.data as LevelCompleteData;
       levelCompleteModal.show(data);
     });
 
-    // Load level data for debug UI
-    const { getLevel } = await import('@shared/levels');
-    const levelData = getLevel('vertical_slice');
+    // Hazard knockouts - both players hear about either one
+    networkClient.on('character_knocked_out', (event) => {
+      const data = event.data as { role: 'dog' | 'panda' };
+      const name = data.role === 'dog' ? 'Dog' : 'Panda';
+      const who = data.role === localRole ? 'You were' : `${name} was`;
+      puzzleHud?.showNotification(`⚡ ${who} knocked out!`, 'warning');
+    });
+
+    networkClient.on('character_respawned', (event) => {
+      const data = event.data as { role: 'dog' | 'panda' };
+      if (data.role === localRole) {
+        puzzleHud?.showNotification('Back at the checkpoint', 'info');
+      }
+    });
+
+    // Pause menu - Esc pauses for both players, resetting needs both votes
+    const pauseMenu = createPauseMenu(container, {
+      localRole,
+      onResume: () => networkClient.setPaused(false),
+      onVoteReset: (vote) => networkClient.voteReset(vote),
+    });
+
+    window.addEventListener('keydown', (e) => {
+      if (e.key !== 'Escape') return;
+      networkClient.setPaused(!pauseMenu.isVisible());
+    });
+
+    networkClient.on('game_paused', (event) => {
+      const data = event.data as { paused: boolean; pausedBy: 'dog' | 'panda' };
+      if (data.paused) {
+        pauseMenu.show(data.pausedBy);
+      } else {
+        pauseMenu.hide();
+      }
+    });
+
+    networkClient.on('reset_vote_state', (event) => {
+      const data = event.data as { puzzleId: string | null; votes: ('dog' | 'panda')[] };
+      const puzzle = scene.getLevelData()?.puzzles.find((p) => p.id === data.puzzleId);
+      pauseMenu.setVotes({ puzzleName: puzzle?.name ?? null, votes: data.votes });
+    });
+
+    networkClient.on('puzzle_reset', (event) => {
+      const data = event.data as { puzzleId: string };
+      const puzzle = scene.getLevelData()?.puzzles.find((p) => p.id === data.puzzleId);
+      puzzleHud?.showNotification(`↺ ${puzzle?.name ?? 'Puzzle'} reset`, 'info');
+    });
+
+    // Either player pressing Continue starts the next level for both
+    networkClient.on('game_start', () => {
+      levelCompleteModal.hide();
+    });
+
+    // Fatal server errors (e.g. the server was updated mid-game) need a reload
+    networkClient.on('error', (event) => {
+      const data = event.data as { error: string; fatal: boolean };
+      if (data.fatal) {
+        showError(data.error);
+      }
+    });
 
     // Track FPS
     let fps = 60;
@@ -176,12 +243,13 @@ async function startGame(container: HTMLElement): Promise<void> {
       }
 
       if (puzzleHud) {
-        puzzleHud.update(scene.getPuzzleStates());
+        puzzleHud.update(scene.getPuzzleStates(), scene.getItems());
       }
       if (debugOverlay) {
         debugOverlay.update(scene);
       }
       if (debugUI.isVisible()) {
+        const levelData = scene.getLevelData();
         const positions = scene.getCharacterPositions();
         debugUI.update({
           scene,
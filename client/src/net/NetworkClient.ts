@@ -8,12 +8,21 @@ import type {
   InputState,
   WorldPos,
   PingType,
+  GameState,
 } from '@shared/types';
 import type {
   ClientMessage,
   ServerMessage,
 } from '@shared/protocol';
 import { PROTOCOL } from '@shared/protocol';
+import {
+  jsonCodec,
+  getCodec,
+  type CodecName,
+  type MessageCodec,
+  type WireData,
+} from '@shared/codec';
+import { StateSync } from './StateSync';
 
 // ============================================
 // Event Types
@@ -28,6 +37,8 @@ export type NetworkEventType =
   | 'player_joined'
   | 'player_left'
   | 'player_reconnected'
+  | 'session_resumed'
+  | 'ready_state'
   | 'game_start'
   | 'state_update'
   | 'interaction_result'
@@ -35,6 +46,11 @@ export type NetworkEventType =
   | 'ping_expired'
   | 'puzzle_update'
   | 'level_complete'
+  | 'character_knocked_out'
+  | 'character_respawned'
+  | 'reset_vote_state'
+  | 'puzzle_reset'
+  | 'game_events'
   | 'game_paused'
   | 'error';
 
@@ -73,13 +89,27 @@ export class NetworkClient {
   private lastServerTime = 0;
   private latency = 0;
 
+  // Wire format - JSON until the server accepts our hello
+  private codec: MessageCodec = jsonCodec;
+  private preferredCodecs: CodecName[];
+  private handshake: { resolve: () => void; reject: (error: Error) => void } | null = null;
+  private fatalError = false;
+
   // Current session info
   private roomCode: string | null = null;
   private role: Role | null = null;
+  private levelId: string | null = null;
+  private sessionToken: string | null = null;
   private currentTick = 0;
+  private inputSequence = 0;
+  private stateSync = new StateSync();
 
   constructor(serverUrl?: string) {
     this.serverUrl = serverUrl || this.getDefaultServerUrl();
+
+    // ?codec=json keeps traffic readable in the browser's network inspector
+    const forced = new URLSearchParams(window.location.search).get('codec');
+    this.preferredCodecs = forced === 'json' ? ['json'] : ['binary', 'json'];
   }
 
   private getDefaultServerUrl(): string {
@@ -107,16 +137,22 @@ export class NetworkClient {
       }
 
       this.state = 'connecting';
+      this.codec = jsonCodec;
+      this.fatalError = false;
 
       try {
         this.ws = new WebSocket(this.serverUrl);
+        this.ws.binaryType = 'arraybuffer';
 
+        // Connected once the server accepts the hello handshake
         this.ws.onopen = () => {
-          this.state = 'connected';
-          this.reconnectAttempts = 0;
-          this.startHeartbeat();
-          this.emit({ type: 'connected' });
-          resolve();
+          this.handshake = { resolve, reject };
+          this.send({
+            type: 'hello',
+            timestamp: Date.now(),
+            version: PROTOCOL.VERSION,
+            codecs: this.preferredCodecs,
+          });
         };
 
         this.ws.onclose = () => {
@@ -126,12 +162,13 @@ export class NetworkClient {
         this.ws.onerror = (error) => {
           console.error('WebSocket error:', error);
           if (this.state === 'connecting') {
-            reject(new Error('Connection failed'));
+            reject(new Error('Failed to connect to server'));
           }
         };
 
         this.ws.onmessage = (event) => {
-          this.handleMessage(event.data);
+          const data = event.data;
+          this.handleMessage(typeof data === 'string' ? data : new Uint8Array(data));
         };
       } catch (error) {
         reject(error);
@@ -148,6 +185,8 @@ export class NetworkClient {
     this.state = 'disconnected';
     this.roomCode = null;
     this.role = null;
+    this.levelId = null;
+    this.sessionToken = null;
   }
 
   private handleDisconnect(): void {
@@ -155,6 +194,14 @@ export class NetworkClient {
     this.state = 'disconnected';
     this.emit({ type: 'disconnected' });
 
+    if (this.handshake) {
+      this.handshake.reject(new Error('Failed to connect to server'));
+      this.handshake = null;
+    }
+
+    // Retrying can't fix a fatal error such as a version mismatch
+    if (this.fatalError) return;
+
     // Attempt reconnection if we were in a room
     if (this.roomCode && this.reconnectAttempts < this.maxReconnectAttempts) {
       this.attemptReconnect();
@@ -171,12 +218,17 @@ export class NetworkClient {
     setTimeout(async () => {
       try {
         await this.connect();
-        // Rejoin room if we had one
-        if (this.roomCode) {
-          this.joinRoom(this.roomCode, this.role || undefined);
+        // Reclaim our seat in the room we were in
+        if (this.roomCode && this.sessionToken) {
+          this.send({
+            type: 'resume_session',
+            timestamp: Date.now(),
+            roomCode: this.roomCode,
+            sessionToken: this.sessionToken,
+          });
         }
       } catch {
-        if (this.reconnectAttempts < this.maxReconnectAttempts) {
+        if (!this.fatalError && this.reconnectAttempts < this.maxReconnectAttempts) {
           this.attemptReconnect();
         }
       }
@@ -206,33 +258,61 @@ export class NetworkClient {
 
   private send(message: ClientMessage): void {
     if (this.ws?.readyState === WebSocket.OPEN) {
-      this.ws.send(JSON.stringify(message));
+      this.ws.send(this.codec.encode(message));
     }
   }
 
-  private handleMessage(data: string): void {
+  private handleMessage(data: WireData): void {
     let message: ServerMessage;
     try {
-      message = JSON.parse(data);
+      message = this.codec.decode(data) as ServerMessage;
     } catch {
-      console.error('Invalid JSON from server');
+      console.error('Undecodable message from server');
       return;
     }
 
     switch (message.type) {
+      case 'welcome':
+        this.codec = getCodec(message.codec);
+        this.state = 'connected';
+        this.reconnectAttempts = 0;
+        this.startHeartbeat();
+        this.emit({ type: 'connected' });
+        this.handshake?.resolve();
+        this.handshake = null;
+        break;
+
       case 'room_created':
         this.roomCode = message.roomCode;
         this.role = message.role;
+        this.levelId = message.levelId;
+        this.sessionToken = message.sessionToken;
         this.emit({ type: 'room_created', data: message });
         break;
 
       case 'room_joined':
         this.roomCode = message.roomCode;
         this.role = message.role;
+        this.levelId = message.levelId;
+        this.sessionToken = message.sessionToken;
+        this.stateSync.reset(message.gameState);
         this.emit({ type: 'room_joined', data: message });
         break;
 
+      case 'session_resumed':
+        this.roomCode = message.roomCode;
+        this.role = message.role;
+        this.levelId = message.roomState.levelId;
+        this.emit({ type: 'session_resumed', data: message });
+        break;
+
       case 'room_error':
+        // Our held seat is gone - nothing left to reconnect to
+        if (message.error === 'session_expired') {
+          this.roomCode = null;
+          this.role = null;
+          this.sessionToken = null;
+        }
         this.emit({ type: 'room_error', data: message });
         break;
 
@@ -248,17 +328,30 @@ export class NetworkClient {
         this.emit({ type: 'player_reconnected', data: message });
         break;
 
+      case 'ready_state':
+        this.emit({ type: 'ready_state', data: message });
+        break;
+
       case 'game_start':
+        this.levelId = message.levelId;
+        this.stateSync.reset(message.gameState);
+        this.currentTick = message.gameState.tick;
         this.emit({ type: 'game_start', data: message });
         break;
 
-      case 'state_update':
-        this.currentTick = message.tick;
-        this.emit({ type: 'state_update', data: message });
+      case 'state_update': {
+        // Deltas are rebuilt into full state so listeners never see partial data
+        const state = this.stateSync.applyDelta(message, message.timestamp);
+        if (!state) break;
+        this.currentTick = state.tick;
+        this.emit({ type: 'state_update', data: state });
         break;
+      }
 
       case 'full_state':
-        this.emit({ type: 'state_update', data: message });
+        this.stateSync.reset(message.gameState);
+        this.currentTick = message.gameState.tick;
+        this.emit({ type: 'state_update', data: message.gameState });
         break;
 
       case 'interaction_result':
@@ -281,6 +374,26 @@ export class NetworkClient {
         this.emit({ type: 'level_complete', data: message });
         break;
 
+      case 'character_knocked_out':
+        this.emit({ type: 'character_knocked_out', data: message });
+        break;
+
+      case 'character_respawned':
+        this.emit({ type: 'character_respawned', data: message });
+        break;
+
+      case 'reset_vote_state':
+        this.emit({ type: 'reset_vote_state', data: message });
+        break;
+
+      case 'puzzle_reset':
+        this.emit({ type: 'puzzle_reset', data: message });
+        break;
+
+      case 'game_events':
+        this.emit({ type: 'game_events', data: message });
+        break;
+
       case 'game_paused':
         this.emit({ type: 'game_paused', data: message });
         break;
@@ -291,6 +404,11 @@ export class NetworkClient {
         break;
 
       case 'server_error':
+        if (message.fatal) {
+          this.fatalError = true;
+          this.handshake?.reject(new Error(message.error));
+          this.handshake = null;
+        }
         this.emit({ type: 'error', data: message });
         break;
     }
@@ -347,20 +465,28 @@ export class NetworkClient {
     });
     this.roomCode = null;
     this.role = null;
+    this.levelId = null;
+    this.sessionToken = null;
   }
 
   // ============================================
   // Game Actions
   // ============================================
 
-  sendInput(input: InputState, position: WorldPos): void {
+  /**
+   * Send an input frame, returning its sequence number for reconciliation
+   */
+  sendInput(input: InputState, position: WorldPos): number {
+    const sequence = ++this.inputSequence;
     this.send({
       type: 'input',
       timestamp: Date.now(),
       tick: this.currentTick,
+      sequence,
       input,
       position,
     });
+    return sequence;
   }
 
   interact(targetId: string, action: string, data?: Record<string, unknown>): void {
@@ -407,6 +533,14 @@ export class NetworkClient {
     });
   }
 
+  voteReset(vote: boolean): void {
+    this.send({
+      type: 'reset_vote',
+      timestamp: Date.now(),
+      vote,
+    });
+  }
+
   setReady(): void {
     this.send({
       type: 'ready',
@@ -414,6 +548,20 @@ export class NetworkClient {
     });
   }
 
+  continueLevel(): void {
+    this.send({
+      type: 'continue_level',
+      timestamp: Date.now(),
+    });
+  }
+
+  cancelCountdown(): void {
+    this.send({
+      type: 'cancel_countdown',
+      timestamp: Date.now(),
+    });
+  }
+
   // ============================================
   // Getters
   // ============================================
@@ -434,6 +582,10 @@ export class NetworkClient {
     return this.role;
   }
 
+  getLevelId(): string | null {
+    return this.levelId;
+  }
+
   getLatency(): number {
     return this.latency;
   }
@@ -442,9 +594,20 @@ export class NetworkClient {
     return this.currentTick;
   }
 
+  /**
+   * Latest full game state rebuilt from keyframes and deltas
+   */
+  getGameState(): GameState | null {
+    return this.stateSync.getState();
+  }
+
   getServerTime(): number {
     return this.lastServerTime;
   }
+
+  getCodecName(): CodecName {
+    return this.codec.name;
+  }
 }
 
 // Singleton instance
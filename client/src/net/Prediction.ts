@@ -0,0 +1,144 @@
+/**
+ * Panda & Dog - Client-Side Prediction
+ * Simulates the local character ahead of the server and reconciles
+ * against the inputs the server has acknowledged
+ */
+
+import type { EntityState, InputState, Vec2 } from '@shared/types';
+import {
+  applyInput,
+  stepEntity,
+  INPUT_STEP,
+  type MovementLevel,
+  type Obstacle,
+  type Surface,
+} from '@shared/movement';
+
+interface PendingInput {
+  sequence: number;
+  input: InputState;
+}
+
+// Errors larger than this (in tiles) are treated as teleports and not smoothed
+const SNAP_DISTANCE = 2;
+
+// Seconds for a correction offset to decay to ~37% of its size
+const CORRECTION_TIME = 0.1;
+
+// Upper bound on unacknowledged inputs kept for replay (~2s at 60 Hz)
+const MAX_PENDING_INPUTS = 120;
+
+function cloneEntity(state: EntityState): EntityState {
+  return {
+    ...state,
+    position: { ...state.position },
+    velocity: { ...state.velocity },
+  };
+}
+
+export class ClientPrediction {
+  private level: MovementLevel | null = null;
+  private surfaces: Surface[] = [];
+  private obstacles: Obstacle[] = [];
+  private predicted: EntityState | null = null;
+  private pending: PendingInput[] = [];
+
+  // Visual offset left over from a reconciliation, blended away over time
+  private correction: Vec2 = { x: 0, y: 0 };
+
+  setLevel(level: MovementLevel | null): void {
+    this.level = level;
+  }
+
+  /**
+   * Platform tops and solid objects from the latest server state
+   */
+  setDynamicGeometry(surfaces: Surface[], obstacles: Obstacle[]): void {
+    this.surfaces = surfaces;
+    this.obstacles = obstacles;
+  }
+
+  private getLevel(): MovementLevel | null {
+    return this.level && { ...this.level, surfaces: this.surfaces, obstacles: this.obstacles };
+  }
+
+  /**
+   * Start predicting from an authoritative state, discarding history
+   */
+  reset(state: EntityState): void {
+    this.predicted = cloneEntity(state);
+    this.pending = [];
+    this.correction = { x: 0, y: 0 };
+  }
+
+  isActive(): boolean {
+    return this.predicted !== null;
+  }
+
+  /**
+   * Simulate a freshly sent input immediately
+   */
+  applyInput(sequence: number, input: InputState): void {
+    if (!this.predicted) return;
+
+    applyInput(this.predicted, input);
+    stepEntity(this.getLevel(), this.predicted, INPUT_STEP);
+
+    this.pending.push({ sequence, input: { ...input } });
+    if (this.pending.length > MAX_PENDING_INPUTS) {
+      this.pending.shift();
+    }
+  }
+
+  /**
+   * Rewind to the server's state and replay inputs it hasn't processed yet
+   */
+  reconcile(serverState: EntityState): void {
+    if (!this.predicted) {
+      this.reset(serverState);
+      return;
+    }
+
+    const acknowledged = serverState.lastProcessedInput ?? 0;
+    this.pending = this.pending.filter(p => p.sequence > acknowledged);
+
+    const level = this.getLevel();
+    const replayed = cloneEntity(serverState);
+    for (const { input } of this.pending) {
+      applyInput(replayed, input);
+      stepEntity(level, replayed, INPUT_STEP);
+    }
+
+    // Keep the character where it was drawn and blend towards the corrected path
+    const errorX = this.predicted.position.x - replayed.position.x;
+    const errorY = this.predicted.position.y - replayed.position.y;
+    const offsetX = this.correction.x + errorX;
+    const offsetY = this.correction.y + errorY;
+
+    if (Math.sqrt(offsetX * offsetX + offsetY * offsetY) > SNAP_DISTANCE) {
+      this.correction = { x: 0, y: 0 };
+    } else {
+      this.correction = { x: offsetX, y: offsetY };
+    }
+
+    this.predicted = replayed;
+  }
+
+  update(deltaTime: number): void {
+    const decay = Math.exp(-deltaTime / CORRECTION_TIME);
+    this.correction.x *= decay;
+    this.correction.y *= decay;
+  }
+
+  /**
+   * Predicted state with the remaining correction offset applied, for rendering
+   */
+  getRenderState(): EntityState | null {
+    if (!this.predicted) return null;
+
+    const state = cloneEntity(this.predicted);
+    state.position.x += this.correction.x;
+    state.position.y += this.correction.y;
+    return state;
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Panda & Dog - Snapshot Interpolation Buffer
+ * Renders remote objects slightly in the past, interpolating between the
+ * two server snapshots that surround the render time
+ */
+
+import type { WorldPos } from '@shared/types';
+import { SERVER_TICK_MS } from '@shared/constants';
+
+export interface SnapshotBufferOptions {
+  delay?: number;             // Ms to render behind the newest snapshot
+  maxExtrapolation?: number;  // Ms to keep extrapolating when snapshots are late
+  capacity?: number;          // Snapshots kept in the buffer
+}
+
+interface Snapshot {
+  time: number;  // Server simulation time in ms (tick * SERVER_TICK_MS)
+  positions: Map<string, WorldPos>;
+}
+
+const DEFAULT_DELAY = SERVER_TICK_MS * 2;
+const DEFAULT_MAX_EXTRAPOLATION = 250;
+const DEFAULT_CAPACITY = 32;
+
+// Movement larger than this between two snapshots is a teleport, not motion
+const SNAP_DISTANCE = 3;
+
+// How quickly the clock offset follows slower packets (fast ones apply immediately)
+const OFFSET_SMOOTHING = 0.01;
+
+function lerpPosition(a: WorldPos, b: WorldPos, t: number): WorldPos {
+  return {
+    x: a.x + (b.x - a.x) * t,
+    y: a.y + (b.y - a.y) * t,
+    z: a.z + (b.z - a.z) * t,
+  };
+}
+
+function distance(a: WorldPos, b: WorldPos): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const dz = b.z - a.z;
+  return Math.sqrt(dx * dx + dy * dy + dz * dz);
+}
+
+export class SnapshotBuffer {
+  private snapshots: Snapshot[] = [];
+  private delay: number;
+  private maxExtrapolation: number;
+  private capacity: number;
+
+  // Estimated (server time - local time); null until the first snapshot
+  private clockOffset: number | null = null;
+
+  constructor(options: SnapshotBufferOptions = {}) {
+    this.delay = options.delay ?? DEFAULT_DELAY;
+    this.maxExtrapolation = options.maxExtrapolation ?? DEFAULT_MAX_EXTRAPOLATION;
+    this.capacity = options.capacity ?? DEFAULT_CAPACITY;
+  }
+
+  setDelay(delay: number): void {
+    this.delay = Math.max(0, delay);
+  }
+
+  getDelay(): number {
+    return this.delay;
+  }
+
+  clear(): void {
+    this.snapshots = [];
+    this.clockOffset = null;
+  }
+
+  /**
+   * Record the positions contained in a server update
+   */
+  push(tick: number, positions: Map<string, WorldPos>, receivedAt: number = performance.now()): void {
+    const time = tick * SERVER_TICK_MS;
+    const newest = this.snapshots[this.snapshots.length - 1];
+
+    // Tick went backwards - the server restarted the simulation
+    if (newest && time < newest.time) {
+      this.clear();
+    }
+
+    // Track server clock against ours. The least delayed packet gives the
+    // largest offset, so jump up to it and only drift down slowly.
+    const sampleOffset = time - receivedAt;
+    if (this.clockOffset === null || sampleOffset > this.clockOffset) {
+      this.clockOffset = sampleOffset;
+    } else {
+      this.clockOffset += (sampleOffset - this.clockOffset) * OFFSET_SMOOTHING;
+    }
+
+    const copy = new Map<string, WorldPos>();
+    for (const [id, position] of positions) {
+      copy.set(id, { ...position });
+    }
+
+    const last = this.snapshots[this.snapshots.length - 1];
+    if (last && last.time === time) {
+      // Extra update within the same tick (e.g. after an interaction)
+      for (const [id, position] of copy) {
+        last.positions.set(id, position);
+      }
+    } else {
+      this.snapshots.push({ time, positions: copy });
+    }
+
+    if (this.snapshots.length > this.capacity) {
+      this.snapshots.splice(0, this.snapshots.length - this.capacity);
+    }
+  }
+
+  /**
+   * Position of an object at the current render time, or null if unknown
+   */
+  sample(id: string, now: number = performance.now()): WorldPos | null {
+    if (this.snapshots.length === 0 || this.clockOffset === null) return null;
+
+    const renderTime = now + this.clockOffset - this.delay;
+
+    // Find the newest snapshot at or before the render time that has this object
+    let before: Snapshot | null = null;
+    let after: Snapshot | null = null;
+    for (const snapshot of this.snapshots) {
+      if (!snapshot.positions.has(id)) continue;
+      if (snapshot.time <= renderTime) {
+        before = snapshot;
+      } else {
+        after = snapshot;
+        break;
+      }
+    }
+
+    if (before && after) {
+      const from = before.positions.get(id)!;
+      const to = after.positions.get(id)!;
+      if (distance(from, to) > SNAP_DISTANCE) return { ...from };
+
+      const t = (renderTime - before.time) / (after.time - before.time);
+      return lerpPosition(from, to, t);
+    }
+
+    if (after) {
+      // Render time is older than anything buffered
+      return { ...after.positions.get(id)! };
+    }
+
+    if (before) {
+      return this.extrapolate(id, before, renderTime);
+    }
+
+    return null;
+  }
+
+  /**
+   * Continue along the last known velocity for a short while when packets are late
+   */
+  private extrapolate(id: string, newest: Snapshot, renderTime: number): WorldPos {
+    const latest = newest.positions.get(id)!;
+
+    let previous: Snapshot | null = null;
+    for (let i = this.snapshots.indexOf(newest) - 1; i >= 0; i--) {
+      if (this.snapshots[i].positions.has(id)) {
+        previous = this.snapshots[i];
+        break;
+      }
+    }
+    if (!previous) return { ...latest };
+
+    const from = previous.positions.get(id)!;
+    if (distance(from, latest) > SNAP_DISTANCE) return { ...latest };
+
+    const ahead = Math.min(renderTime - newest.time, this.maxExtrapolation);
+    const t = 1 + ahead / (newest.time - previous.time);
+    return lerpPosition(from, latest, t);
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Panda & Dog - State Sync
+ * Rebuilds the full GameState from server keyframes and deltas
+ */
+
+import type { GameState } from '@shared/types';
+import { PROTOCOL } from '@shared/protocol';
+import { applyGameStateDelta, type GameStateDelta } from '@shared/delta';
+
+export class StateSync {
+  // Recent states by tick - any of them may be the baseline of the next delta
+  private history: Map<number, GameState> = new Map();
+  private latest: GameState | null = null;
+
+  /**
+   * Replace everything with a keyframe
+   */
+  reset(state: GameState): void {
+    this.history.clear();
+    this.latest = state;
+    this.history.set(state.tick, state);
+  }
+
+  /**
+   * Apply a delta, returning the rebuilt state or null if its baseline is unknown
+   */
+  applyDelta(delta: GameStateDelta, timestamp?: number): GameState | null {
+    const base = this.history.get(delta.baseTick);
+    if (!base) {
+      // Wait for the next keyframe
+      console.warn(`Missing delta baseline for tick ${delta.baseTick}`);
+      return null;
+    }
+
+    const state = applyGameStateDelta(base, delta, timestamp);
+    this.latest = state;
+    this.history.set(state.tick, state);
+    this.history.delete(state.tick - PROTOCOL.STATE_HISTORY_TICKS);
+
+    return state;
+  }
+
+  getState(): GameState | null {
+    return this.latest;
+  }
+
+  getTick(): number {
+    return this.latest?.tick ?? 0;
+  }
+}
@@ -4,6 +4,7 @@
  */
 
 import type { Role } from '@shared/types';
+import { getRoleAbilities } from '@shared/permissions';
 
 export interface HelpScreen {
   show(): void;
@@ -21,6 +22,20 @@ export function createHelpScreen(container: HTMLElement, role: Role | null): Hel
   const isPanda = role === 'panda';
   const isMobile = /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent);
 
+  // Straight from the permission table the server enforces
+  const abilitiesSection = role ? `
+        <div class="help-section">
+          <h3 class="help-section__title">What You Can Do</h3>
+          <ul class="help-tips">
+            ${getRoleAbilities(role).map((ability) => {
+              const hold = ability.hold ? ' (hold)' : '';
+              const except = ability.exceptions.length > 0 ? ` - except ${ability.exceptions.join(' and ')}` : '';
+              return `<li>${ability.help}${hold}${except}</li>`;
+            }).join('')}
+          </ul>
+        </div>
+  ` : '';
+
   // Mobile-friendly help content for Panda
   const mobileContent = `
     <div class="help-screen__content">
@@ -55,6 +70,8 @@ export function createHelpScreen(container: HTMLElement, role: Role | null): Hel
           </p>
         </div>
 
+        ${abilitiesSection}
+
         <div class="help-section">
           <h3 class="help-section__title">Tips</h3>
           <ul class="help-tips">
@@ -142,6 +159,8 @@ export function createHelpScreen(container: HTMLElement, role: Role | null): Hel
           </p>
         </div>
 
+        ${abilitiesSection}
+
         <div class="help-section">
           <h3 class="help-section__title">Tips</h3>
           <ul class="help-tips">
@@ -175,6 +194,8 @@ export function createHelpScreen(container: HTMLElement, role: Role | null): Hel
       toggle();
     }
     if (e.key === 'Escape' && overlay.style.display !== 'none') {
+      // Closing help shouldn't also open the pause menu
+      e.stopImmediatePropagation();
       hide();
     }
   }
@@ -3,10 +3,13 @@
  * Shows when both players complete all puzzles
  */
 
+import { getLevel } from '@shared/levels';
+
 export interface LevelCompleteData {
   puzzlesCompleted: number;
   totalPuzzles: number;
   timeElapsed: number;
+  nextLevelId: string;
 }
 
 export interface LevelCompleteModal {
@@ -15,7 +18,7 @@ export interface LevelCompleteModal {
   destroy(): void;
 }
 
-export function createLevelCompleteModal(container: HTMLElement): LevelCompleteModal {
+export function createLevelCompleteModal(container: HTMLElement, onContinue: () => void): LevelCompleteModal {
   const modal = document.createElement('div');
   modal.className = 'level-complete-modal';
   modal.style.display = 'none';
@@ -34,6 +37,7 @@ export function createLevelCompleteModal(container: HTMLElement): LevelCompleteM
           <div class="level-complete-modal__stat-label">Time</div>
         </div>
       </div>
+      <div class="level-complete-modal__subtitle" id="complete-next"></div>
       <button class="level-complete-modal__button" id="complete-continue">Continue</button>
     </div>
   `;
@@ -41,11 +45,13 @@ export function createLevelCompleteModal(container: HTMLElement): LevelCompleteM
 
   const puzzlesEl = modal.querySelector('#complete-puzzles') as HTMLElement;
   const timeEl = modal.querySelector('#complete-time') as HTMLElement;
+  const nextEl = modal.querySelector('#complete-next') as HTMLElement;
   const continueBtn = modal.querySelector('#complete-continue') as HTMLButtonElement;
 
   continueBtn.addEventListener('click', () => {
-    hide();
-    // Could trigger next level or return to menu
+    // Modal hides when the server starts the next level
+    continueBtn.disabled = true;
+    onContinue();
   });
 
   function formatTime(ms: number): string {
@@ -58,6 +64,8 @@ export function createLevelCompleteModal(container: HTMLElement): LevelCompleteM
   function show(data: LevelCompleteData): void {
     puzzlesEl.textContent = `${data.puzzlesCompleted}/${data.totalPuzzles}`;
     timeEl.textContent = formatTime(data.timeElapsed);
+    nextEl.textContent = `Next: ${getLevel(data.nextLevelId)?.name ?? data.nextLevelId}`;
+    continueBtn.disabled = false;
     modal.style.display = 'flex';
   }
 
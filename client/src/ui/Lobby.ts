@@ -5,7 +5,8 @@
 
 import QRCode from 'qrcode';
 import { networkClient, type NetworkEvent } from '@net/NetworkClient';
-import type { Role } from '@shared/types';
+import type { Role, RoomState } from '@shared/types';
+import { getLevel, getLevelList } from '@shared/levels';
 
 const VERSION = '2.2.0';
 
@@ -21,10 +22,14 @@ export class LobbyUI {
   private state: LobbyState = 'initial';
   private roomCode: string | null = null;
   private role: Role | null = null;
+  private levelId: string | null = null;
+  private selectedLevelId = getLevelList()[0];
   private dogConnected = false;
   private pandaConnected = false;
   private dogReady = false;
   private pandaReady = false;
+  private countdownEndsAt: number | null = null;
+  private countdownTimer: number | null = null;
   private callbacks: LobbyCallbacks;
   private unsubscribe: (() => void) | null = null;
 
@@ -51,14 +56,19 @@ export class LobbyUI {
         this.setState('initial');
         this.roomCode = null;
         this.role = null;
+        this.levelId = null;
         this.dogConnected = false;
         this.pandaConnected = false;
+        this.dogReady = false;
+        this.pandaReady = false;
+        this.setCountdown(null);
         break;
 
       case 'room_created': {
-        const data = event.data as { roomCode: string; role: Role };
+        const data = event.data as { roomCode: string; role: Role; levelId: string };
         this.roomCode = data.roomCode;
         this.role = data.role;
+        this.levelId = data.levelId;
         this.dogConnected = data.role === 'dog';
         this.pandaConnected = data.role === 'panda';
         this.setState('waiting');
@@ -66,9 +76,10 @@ export class LobbyUI {
       }
 
       case 'room_joined': {
-        const data = event.data as { roomCode: string; role: Role };
+        const data = event.data as { roomCode: string; role: Role; levelId: string };
         this.roomCode = data.roomCode;
         this.role = data.role;
+        this.levelId = data.levelId;
         if (data.role === 'dog') {
           this.dogConnected = true;
         } else {
@@ -78,6 +89,17 @@ export class LobbyUI {
         break;
       }
 
+      case 'session_resumed': {
+        const data = event.data as { roomCode: string; role: Role; roomState: RoomState };
+        this.roomCode = data.roomCode;
+        this.role = data.role;
+        this.levelId = data.roomState.levelId;
+        this.dogConnected = data.roomState.players.dog?.connected ?? false;
+        this.pandaConnected = data.roomState.players.panda?.connected ?? false;
+        this.setState('waiting');
+        break;
+      }
+
       case 'room_error': {
         const data = event.data as { message: string };
         this.callbacks.onError(data.message);
@@ -105,11 +127,29 @@ export class LobbyUI {
           this.pandaConnected = false;
           this.pandaReady = false;
         }
-        this.render();
+        this.setCountdown(null);
+        if (this.state === 'ready') {
+          this.setState('waiting');
+        } else {
+          this.render();
+        }
+        break;
+      }
+
+      case 'ready_state': {
+        const data = event.data as { ready: Record<Role, boolean>; countdown: number | null };
+        this.dogReady = data.ready.dog;
+        this.pandaReady = data.ready.panda;
+        this.setCountdown(data.countdown);
+        if (this.state === 'waiting' || this.state === 'ready') {
+          const selfReady = this.role === 'dog' ? this.dogReady : this.pandaReady;
+          this.setState(selfReady ? 'ready' : 'waiting');
+        }
         break;
       }
 
       case 'game_start':
+        this.setCountdown(null);
         this.setState('starting');
         setTimeout(() => {
           this.callbacks.onGameStart();
@@ -129,6 +169,32 @@ export class LobbyUI {
     this.render();
   }
 
+  // Countdown is server-driven - this only keeps the on-screen seconds ticking
+  private setCountdown(remaining: number | null): void {
+    if (this.countdownTimer !== null) {
+      clearInterval(this.countdownTimer);
+      this.countdownTimer = null;
+    }
+
+    this.countdownEndsAt = remaining === null ? null : Date.now() + remaining;
+    if (this.countdownEndsAt === null) return;
+
+    this.countdownTimer = window.setInterval(() => {
+      const label = this.container.querySelector('#countdown-status');
+      if (label) {
+        label.textContent = this.getCountdownText();
+      }
+    }, 250);
+  }
+
+  private getCountdownText(): string {
+    if (this.countdownEndsAt === null) {
+      return 'Waiting for both players to be ready...';
+    }
+    const seconds = Math.max(0, Math.ceil((this.countdownEndsAt - Date.now()) / 1000));
+    return `Starting in ${seconds}...`;
+  }
+
   private async render(): Promise<void> {
     this.container.innerHTML = '';
 
@@ -170,6 +236,14 @@ export class LobbyUI {
       </div>
 
       <div class="lobby__actions">
+        <label class="lobby__level">
+          <span class="lobby__level-label">Level</span>
+          <select class="input" id="select-level">
+            ${getLevelList().map((id) => `
+              <option value="${id}" ${id === this.selectedLevelId ? 'selected' : ''}>${getLevel(id)?.name ?? id}</option>
+            `).join('')}
+          </select>
+        </label>
         <button class="btn btn--primary btn--large" id="btn-create">
           Create Room
         </button>
@@ -206,6 +280,11 @@ export class LobbyUI {
     const btnCreate = screen.querySelector('#btn-create') as HTMLButtonElement;
     const btnJoin = screen.querySelector('#btn-join') as HTMLButtonElement;
     const inputCode = screen.querySelector('#input-code') as HTMLInputElement;
+    const selectLevel = screen.querySelector('#select-level') as HTMLSelectElement;
+
+    selectLevel.addEventListener('change', () => {
+      this.selectedLevelId = selectLevel.value;
+    });
 
     btnCreate.addEventListener('click', () => this.createRoom());
     btnJoin.addEventListener('click', () => this.joinRoom(inputCode.value));
@@ -250,6 +329,7 @@ export class LobbyUI {
         <div class="lobby__room-header">
           <span class="lobby__room-label">Room Code</span>
           <span class="lobby__room-code">${this.roomCode || '----'}</span>
+          <span class="lobby__room-label">${this.getLevelName()}</span>
         </div>
 
         <div class="lobby__qr">
@@ -279,6 +359,10 @@ export class LobbyUI {
       </div>
 
       <div class="lobby__footer">
+        ${bothConnected && (this.dogReady || this.pandaReady)
+          ? `<p class="lobby__waiting">Your partner is ready!</p>`
+          : ''
+        }
         ${bothConnected
           ? `<button class="btn btn--primary btn--large" id="btn-ready">Ready to Start</button>`
           : `<p class="lobby__waiting">Waiting for other player...</p>`
@@ -312,8 +396,16 @@ export class LobbyUI {
           <span class="player-ready__status">${this.pandaReady ? 'Ready!' : 'Waiting...'}</span>
         </div>
       </div>
-      <p class="lobby__status">Waiting for both players to be ready...</p>
+      <p class="lobby__status" id="countdown-status">${this.getCountdownText()}</p>
+      ${this.role === 'dog' && this.countdownEndsAt !== null
+        ? `<button class="btn btn--small" id="btn-cancel">Cancel</button>`
+        : ''
+      }
     `;
+
+    const btnCancel = screen.querySelector('#btn-cancel');
+    btnCancel?.addEventListener('click', () => networkClient.cancelCountdown());
+
     return screen;
   }
 
@@ -327,6 +419,11 @@ export class LobbyUI {
     return screen;
   }
 
+  private getLevelName(): string {
+    if (!this.levelId) return '';
+    return getLevel(this.levelId)?.name ?? this.levelId;
+  }
+
   private async generateQRCode(): Promise<string> {
     if (!this.roomCode) return '';
 
@@ -352,9 +449,10 @@ export class LobbyUI {
     try {
       await networkClient.connect();
       this.setState('creating');
-      networkClient.createRoom('vertical_slice');
+      networkClient.createRoom(this.selectedLevelId);
     } catch (error) {
-      this.callbacks.onError('Failed to connect to server');
+      // Handshake rejections carry the server's explanation
+      this.callbacks.onError(error instanceof Error ? error.message : 'Failed to connect to server');
       this.setState('initial');
     }
   }
@@ -372,7 +470,8 @@ export class LobbyUI {
       await networkClient.connect();
       networkClient.joinRoom(cleanCode);
     } catch (error) {
-      this.callbacks.onError('Failed to connect to server');
+      // Handshake rejections carry the server's explanation
+      this.callbacks.onError(error instanceof Error ? error.message : 'Failed to connect to server');
       this.setState('initial');
     }
   }
@@ -382,8 +481,12 @@ export class LobbyUI {
     networkClient.disconnect();
     this.roomCode = null;
     this.role = null;
+    this.levelId = null;
     this.dogConnected = false;
     this.pandaConnected = false;
+    this.dogReady = false;
+    this.pandaReady = false;
+    this.setCountdown(null);
     this.setState('initial');
   }
 
@@ -398,6 +501,7 @@ export class LobbyUI {
   }
 
   destroy(): void {
+    this.setCountdown(null);
     if (this.unsubscribe) {
       this.unsubscribe();
     }
@@ -0,0 +1,101 @@
+/**
+ * Panda & Dog - Pause Menu
+ * Shown to both players while the game is paused. Resetting the current
+ * puzzle needs a vote from each of them.
+ */
+
+import type { Role } from '@shared/types';
+
+export interface ResetVoteData {
+  puzzleName: string | null;
+  votes: Role[];
+}
+
+export interface PauseMenu {
+  show(pausedBy: Role): void;
+  hide(): void;
+  isVisible(): boolean;
+  setVotes(data: ResetVoteData): void;
+  destroy(): void;
+}
+
+export interface PauseMenuOptions {
+  localRole: Role | null;
+  onResume: () => void;
+  onVoteReset: (vote: boolean) => void;
+}
+
+export function createPauseMenu(container: HTMLElement, options: PauseMenuOptions): PauseMenu {
+  const menu = document.createElement('div');
+  menu.className = 'pause-menu';
+  menu.style.display = 'none';
+  menu.innerHTML = `
+    <div class="pause-menu__content">
+      <div class="pause-menu__title">Paused</div>
+      <div class="pause-menu__subtitle" id="pause-by"></div>
+      <button class="pause-menu__button" id="pause-resume">Resume</button>
+      <button class="pause-menu__button pause-menu__button--secondary" id="pause-reset">Vote to Reset Puzzle</button>
+      <div class="pause-menu__votes" id="pause-votes"></div>
+    </div>
+  `;
+  container.appendChild(menu);
+
+  const byEl = menu.querySelector('#pause-by') as HTMLElement;
+  const votesEl = menu.querySelector('#pause-votes') as HTMLElement;
+  const resumeBtn = menu.querySelector('#pause-resume') as HTMLButtonElement;
+  const resetBtn = menu.querySelector('#pause-reset') as HTMLButtonElement;
+
+  let voted = false;
+
+  resumeBtn.addEventListener('click', () => {
+    options.onResume();
+  });
+
+  resetBtn.addEventListener('click', () => {
+    options.onVoteReset(!voted);
+  });
+
+  function getRoleName(role: Role): string {
+    return role === 'dog' ? 'Dog' : 'Panda';
+  }
+
+  function setVotes(data: ResetVoteData): void {
+    voted = options.localRole !== null && data.votes.includes(options.localRole);
+    resetBtn.classList.toggle('pause-menu__button--active', voted);
+    resetBtn.textContent = voted ? 'Cancel Reset Vote' : 'Vote to Reset Puzzle';
+
+    const puzzle = data.puzzleName ?? 'current puzzle';
+    if (data.votes.length === 0) {
+      votesEl.textContent = `Reset restarts ${puzzle} from its checkpoint`;
+    } else {
+      const names = data.votes.map(getRoleName).join(' and ');
+      votesEl.textContent = `${names} voted to reset ${puzzle} (${data.votes.length}/2)`;
+    }
+  }
+
+  function show(pausedBy: Role): void {
+    byEl.textContent = pausedBy === options.localRole ? 'You paused the game' : `${getRoleName(pausedBy)} paused the game`;
+    setVotes({ puzzleName: null, votes: [] });
+    menu.style.display = 'flex';
+  }
+
+  function hide(): void {
+    menu.style.display = 'none';
+  }
+
+  function isVisible(): boolean {
+    return menu.style.display !== 'none';
+  }
+
+  function destroy(): void {
+    menu.remove();
+  }
+
+  return {
+    show,
+    hide,
+    isVisible,
+    setVotes,
+    destroy,
+  };
+}
@@ -6,7 +6,7 @@
 import type { PuzzleState } from '@shared/types';
 
 export interface PuzzleHUD {
-  update(puzzles: PuzzleState[]): void;
+  update(puzzles: PuzzleState[], items: string[]): void;
   showNotification(message: string, type: 'success' | 'info' | 'warning'): void;
   destroy(): void;
 }
@@ -44,34 +44,13 @@ export function createPuzzleHUD(container: HTMLElement): PuzzleHUD {
     panel.classList.toggle('puzzle-panel--collapsed', isCollapsed);
   });
 
-  let previousPuzzles: PuzzleState[] = [];
-
-  function update(puzzles: PuzzleState[]): void {
-    // Check for newly completed puzzles
-    for (const puzzle of puzzles) {
-      const prev = previousPuzzles.find(p => p.id === puzzle.id);
-      if (puzzle.completed && (!prev || !prev.completed)) {
-        showNotification(`🎉 Puzzle Complete: ${puzzle.name}`, 'success');
-      }
-
-      // Check for newly completed objectives
-      for (const obj of puzzle.objectives) {
-        const prevObj = prev?.objectives.find(o => o.id === obj.id);
-        if (obj.completed && (!prevObj || !prevObj.completed) && !puzzle.completed) {
-          showNotification(`✓ ${obj.description}`, 'info');
-        }
-      }
-    }
-
-    previousPuzzles = puzzles.map(p => ({
-      ...p,
-      objectives: p.objectives.map(o => ({ ...o })),
-    }));
-
+  // Completion notifications come from the server's game events, see MultiplayerScene
+  function update(puzzles: PuzzleState[], items: string[]): void {
     // Update display
     listEl.innerHTML = '';
 
-    for (const puzzle of puzzles) {
+    // Puzzles waiting on earlier ones stay hidden until they open up
+    for (const puzzle of puzzles.filter((p) => p.available)) {
       const puzzleEl = document.createElement('div');
       puzzleEl.className = `puzzle-item ${puzzle.completed ? 'puzzle-item--completed' : ''}`;
 
@@ -104,6 +83,19 @@ export function createPuzzleHUD(container: HTMLElement): PuzzleHUD {
       listEl.appendChild(puzzleEl);
     }
 
+    // Items puzzle rewards have handed this character
+    if (items.length > 0) {
+      const itemsEl = document.createElement('div');
+      itemsEl.className = 'puzzle-item';
+      itemsEl.innerHTML = `
+        <div class="puzzle-item__header">
+          <span class="puzzle-item__status">🎒</span>
+          <span class="puzzle-item__name">${items.join(', ')}</span>
+        </div>
+      `;
+      listEl.appendChild(itemsEl);
+    }
+
     // Show message if all puzzles complete
     const allComplete = puzzles.length > 0 && puzzles.every(p => p.completed);
     if (allComplete) {
@@ -0,0 +1,40 @@
+/**
+ * Panda & Dog - Clock
+ * Wall-clock source for rooms, swappable so tests and replays control time
+ */
+
+import { SERVER_TICK_MS } from '../../shared/constants';
+
+export interface Clock {
+  now(): number;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+};
+
+/**
+ * Clock that only moves when told to
+ */
+export class ManualClock implements Clock {
+  private time: number;
+
+  constructor(start: number = 0) {
+    this.time = start;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  advance(ms: number): void {
+    this.time += ms;
+  }
+}
+
+/**
+ * Simulation timers count ticks - round delays up so they never fire early
+ */
+export function msToTicks(ms: number): number {
+  return Math.ceil(ms / SERVER_TICK_MS);
+}
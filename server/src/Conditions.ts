@@ -0,0 +1,200 @@
+/**
+ * Panda & Dog - Puzzle Conditions
+ * Evaluates objective conditions against the room each tick. Conditions that
+ * depend on history - held, sequence, count - keep their progress here, keyed
+ * by where they sit in the level, e.g. 'puzzle_c/obj_c_both/0' for the first
+ * branch of an objective's 'and'. Level data can then share one condition
+ * object between objectives without them sharing progress.
+ */
+
+import type {
+  EntityState,
+  GameEvent,
+  GameEventMatch,
+  InteractableState,
+  PuzzleCondition,
+  Role,
+} from '../../shared/types';
+import { isInZone } from '../../shared/movement';
+
+interface ConditionRuntime {
+  heldSince?: number;  // held: first tick of the current run of true ticks
+  step: number;        // sequence: events matched so far
+  startTick: number;   // sequence: tick of the first matched event
+  seen: number;        // count: matching events so far
+}
+
+function matches(match: GameEventMatch, event: GameEvent): boolean {
+  if (match.kind !== event.kind) return false;
+  if (match.targetId === undefined) return true;
+
+  switch (event.kind) {
+    case 'objective_completed':
+      return event.objectiveId === match.targetId;
+    case 'puzzle_completed':
+    case 'puzzle_available':
+      return event.puzzleId === match.targetId;
+    case 'area_revealed':
+      return event.areaId === match.targetId;
+    case 'item_granted':
+      return event.item === match.targetId;
+    default:
+      return event.interactableId === match.targetId;
+  }
+}
+
+export class PuzzleConditions {
+  private interactables: Map<string, InteractableState>;
+  private entities: Map<string, EntityState>;
+  private items: Map<Role, Set<string>>;
+  private runtimes: Map<string, ConditionRuntime> = new Map();
+
+  constructor(
+    interactables: Map<string, InteractableState>,
+    entities: Map<string, EntityState>,
+    items: Map<Role, Set<string>>
+  ) {
+    this.interactables = interactables;
+    this.entities = entities;
+    this.items = items;
+  }
+
+  /**
+   * Evaluate a condition for this tick. Call once per tick per path, with the
+   * tick's events, so history-based conditions count each event once.
+   */
+  evaluate(condition: PuzzleCondition, path: string, tick: number, events: GameEvent[]): boolean {
+    switch (condition.type) {
+      case 'interactable_state': {
+        const interactable = this.interactables.get(condition.targetId);
+        if (!interactable) return false;
+
+        for (const [key, value] of Object.entries(condition.state)) {
+          if (interactable.state[key] !== value) return false;
+        }
+        return true;
+      }
+
+      case 'compare': {
+        const value = this.interactables.get(condition.targetId)?.state[condition.key];
+        if (typeof value !== 'number') return false;
+
+        switch (condition.op) {
+          case '>=': return value >= condition.value;
+          case '<=': return value <= condition.value;
+          case '>': return value > condition.value;
+          case '<': return value < condition.value;
+        }
+        return false;
+      }
+
+      case 'role_in_zone': {
+        const entity = this.entities.get(`${condition.role}_entity`);
+        return entity !== undefined && isInZone(entity.position, condition.zone);
+      }
+
+      case 'both_players_in_zone': {
+        let dogInZone = false;
+        let pandaInZone = false;
+
+        for (const entity of this.entities.values()) {
+          const pos = entity.position;
+          const inZone = (
+            pos.x >= condition.zoneMin.x && pos.x <= condition.zoneMax.x &&
+            pos.y >= condition.zoneMin.y && pos.y <= condition.zoneMax.y
+          );
+
+          if (inZone) {
+            if (entity.type === 'dog') dogInZone = true;
+            if (entity.type === 'panda') pandaInZone = true;
+          }
+        }
+
+        return dogInZone && pandaInZone;
+      }
+
+      case 'has_item': {
+        const roles: Role[] = condition.role ? [condition.role] : ['dog', 'panda'];
+        return roles.some((role) => this.items.get(role)?.has(condition.item) === true);
+      }
+
+      case 'held': {
+        const runtime = this.getRuntime(path);
+        if (!this.evaluate(condition.condition, `${path}/0`, tick, events)) {
+          runtime.heldSince = undefined;
+          return false;
+        }
+        runtime.heldSince ??= tick;
+        return tick - runtime.heldSince + 1 >= condition.ticks;
+      }
+
+      case 'sequence': {
+        const runtime = this.getRuntime(path);
+        const steps = condition.events;
+
+        for (const event of events) {
+          if (runtime.step >= steps.length) break;
+
+          // Ran out of time - start over, possibly from this very event
+          if (runtime.step > 0 && condition.withinTicks !== undefined &&
+              event.tick - runtime.startTick > condition.withinTicks) {
+            runtime.step = 0;
+          }
+
+          if (matches(steps[runtime.step], event)) {
+            if (runtime.step === 0) runtime.startTick = event.tick;
+            runtime.step++;
+          }
+        }
+
+        return runtime.step >= steps.length;
+      }
+
+      case 'count': {
+        const runtime = this.getRuntime(path);
+        runtime.seen += events.filter((event) => matches(condition.event, event)).length;
+        return runtime.seen >= condition.count;
+      }
+
+      // Every branch is evaluated, never short-circuited, so history-based
+      // conditions inside still see each tick
+      case 'and': {
+        const results = condition.conditions.map((sub, i) => this.evaluate(sub, `${path}/${i}`, tick, events));
+        return results.length > 0 && results.every(Boolean);
+      }
+
+      case 'or': {
+        const results = condition.conditions.map((sub, i) => this.evaluate(sub, `${path}/${i}`, tick, events));
+        return results.some(Boolean);
+      }
+
+      case 'not':
+        return !this.evaluate(condition.condition, `${path}/0`, tick, events);
+
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Forget the history at a path and everything nested under it, e.g. a puzzle's when it resets
+   */
+  reset(path: string): void {
+    for (const key of this.runtimes.keys()) {
+      if (key === path || key.startsWith(`${path}/`)) this.runtimes.delete(key);
+    }
+  }
+
+  clear(): void {
+    this.runtimes.clear();
+  }
+
+  private getRuntime(path: string): ConditionRuntime {
+    let runtime = this.runtimes.get(path);
+    if (!runtime) {
+      runtime = { step: 0, startTick: 0, seen: 0 };
+      this.runtimes.set(path, runtime);
+    }
+    return runtime;
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Panda & Dog - Game Events
+ * Notices gameplay moments by comparing each interactable with how it looked
+ * at the end of the previous tick, so a door opened by a player, a wire or a
+ * puzzle reward is reported the same way.
+ */
+
+import type {
+  GameEvent,
+  InteractableEventKind,
+  InteractableState,
+  InteractableType,
+} from '../../shared/types';
+
+type StateSnapshot = Record<string, unknown>;
+
+type Detector = (before: StateSnapshot, after: StateSnapshot) => InteractableEventKind | null;
+
+function changed(before: StateSnapshot, after: StateSnapshot, key: string): boolean {
+  return before[key] !== after[key];
+}
+
+const DETECTORS: Partial<Record<InteractableType, Detector>> = {
+  pressure_plate: (before, after) => {
+    if (!changed(before, after, 'activated')) return null;
+    return after.activated ? 'plate_pressed' : 'plate_released';
+  },
+  door: (before, after) => {
+    if (!changed(before, after, 'open')) return null;
+    return after.open ? 'door_opened' : 'door_closed';
+  },
+  lever: (before, after) => {
+    return changed(before, after, 'position') ? 'lever_toggled' : null;
+  },
+  button: (before, after) => {
+    return after.pressed && !before.pressed ? 'button_pressed' : null;
+  },
+  winch: (before, after) => {
+    if (!changed(before, after, 'operating')) return null;
+    return after.operating ? 'winch_started' : 'winch_stopped';
+  },
+  hazard: (before, after) => {
+    // A cycling hazard flickering on its timer isn't news
+    if (after.cycleTime || !changed(before, after, 'active')) return null;
+    return after.active ? 'hazard_enabled' : 'hazard_disabled';
+  },
+  crate: (before, after) => {
+    return changed(before, after, 'gridX') || changed(before, after, 'gridY') ? 'crate_moved' : null;
+  },
+};
+
+export class GameEventTracker {
+  private interactables: Map<string, InteractableState>;
+  private previousStates: Map<string, StateSnapshot> = new Map();
+
+  constructor(interactables: Map<string, InteractableState>) {
+    this.interactables = interactables;
+  }
+
+  /**
+   * Take the current state as the baseline without reporting anything,
+   * e.g. after a level loads
+   */
+  sync(): void {
+    this.previousStates.clear();
+    for (const interactable of this.interactables.values()) {
+      this.previousStates.set(interactable.id, { ...interactable.state });
+    }
+  }
+
+  /**
+   * Events for everything that changed since the last call
+   */
+  collect(tick: number): GameEvent[] {
+    const events: GameEvent[] = [];
+
+    for (const interactable of this.interactables.values()) {
+      const before = this.previousStates.get(interactable.id);
+      const after = interactable.state;
+      this.previousStates.set(interactable.id, { ...after });
+      if (!before) continue;
+
+      const kind = DETECTORS[interactable.type]?.(before, after);
+      if (kind) {
+        events.push({ kind, tick, interactableId: interactable.id, position: { ...interactable.position } });
+      }
+    }
+
+    return events;
+  }
+}
@@ -0,0 +1,339 @@
+/**
+ * Panda & Dog - Logic Graph
+ * Data-driven wiring between interactables. Every interactable exposes
+ * outputs read from its state and accepts inputs that change it; levels
+ * connect them with wires, optionally through logic nodes.
+ */
+
+import type {
+  InteractableConfig,
+  InteractableState,
+  InteractableType,
+  LevelData,
+  LogicNodeConfig,
+  SignalRef,
+  SignalWire,
+  WorldPos,
+} from '../../shared/types';
+import { getWaypointPosition } from '../../shared/movement';
+import { msToTicks } from './Clock';
+
+// Signals are numbers - booleans travel as 0/1, analog outputs keep their value
+type Signal = number;
+
+const ON_THRESHOLD = 0.5;
+
+export function isSignalOn(signal: Signal): boolean {
+  return signal >= ON_THRESHOLD;
+}
+
+function fromBoolean(value: unknown): Signal {
+  return value === true ? 1 : 0;
+}
+
+function fromNumber(value: unknown): Signal {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+// ============================================
+// Interactable Outputs
+// ============================================
+
+type Output = (state: Record<string, unknown>) => Signal;
+
+// The first output listed is the default when a ref names only the ID
+const OUTPUTS: Partial<Record<InteractableType, Record<string, Output>>> = {
+  pressure_plate: {
+    activated: (state) => fromBoolean(state.activated),
+    weight: (state) => fromNumber(state.currentWeight),
+  },
+  lever: {
+    on: (state) => fromBoolean(state.position === 'on'),
+  },
+  button: {
+    pressed: (state) => fromBoolean(state.pressed),
+  },
+  door: {
+    open: (state) => fromBoolean(state.open),
+  },
+  winch: {
+    full: (state) => fromBoolean(fromNumber(state.extended) >= 1),
+    extended: (state) => fromNumber(state.extended),
+  },
+  platform: {
+    position: (state) => fromNumber(state.currentPosition),
+  },
+  hazard: {
+    active: (state) => fromBoolean(state.active),
+  },
+  camera_node: {
+    active: (state) => fromBoolean(state.active),
+  },
+  crate: {
+    pushed: (state) => fromBoolean(state.beingPushed),
+  },
+};
+
+// ============================================
+// Interactable Inputs
+// ============================================
+
+type Input = (target: InteractableState, signal: Signal, config: InteractableConfig | undefined) => void;
+
+// Applied only when the signal reaching the input changes, so players can
+// still operate the target between changes
+const INPUTS: Partial<Record<InteractableType, Record<string, Input>>> = {
+  door: {
+    open: (target, signal) => {
+      target.state.open = isSignalOn(signal);
+    },
+    lock: (target, signal) => {
+      target.state.locked = isSignalOn(signal);
+    },
+  },
+  hazard: {
+    // A cycling hazard keeps to its cycle - the signal only switches the cycle on and off
+    active: (target, signal) => {
+      if (target.state.cycleTime) {
+        target.state.enabled = isSignalOn(signal);
+      } else {
+        target.state.active = isSignalOn(signal);
+      }
+    },
+  },
+  winch: {
+    power: (target, signal) => {
+      target.state.powered = isSignalOn(signal);
+    },
+  },
+  platform: {
+    moving: (target, signal) => {
+      target.state.moving = isSignalOn(signal);
+    },
+    // Follow an analog signal along the path, e.g. a winch's extension
+    position: (target, signal) => {
+      const waypoints = target.state.waypoints as WorldPos[] | undefined;
+      if (!waypoints || waypoints.length < 2) return;
+
+      const t = Math.max(0, Math.min(1, signal));
+      target.state.currentPosition = t;
+      target.state.moving = false;
+      target.position = getWaypointPosition(waypoints, t, target.state.mode === 'loop');
+    },
+    // Snap to the far end when on, back to the start when off
+    extend: (target, signal) => {
+      const waypoints = target.state.waypoints as WorldPos[] | undefined;
+      if (!waypoints || waypoints.length < 2) return;
+
+      const extended = isSignalOn(signal);
+      target.state.currentPosition = extended ? 1 : 0;
+      target.state.moving = false;
+      target.position = { ...waypoints[extended ? waypoints.length - 1 : 0] };
+    },
+  },
+  crate: {
+    // Back to where the level placed it
+    reset: (target, signal, config) => {
+      if (!isSignalOn(signal) || !config) return;
+
+      target.position = { ...config.position };
+      target.state.gridX = Math.round(config.position.x);
+      target.state.gridY = Math.round(config.position.y);
+      target.state.beingPushed = false;
+    },
+  },
+};
+
+// ============================================
+// Logic Nodes
+// ============================================
+
+interface NodeRuntime {
+  config: LogicNodeConfig;
+  value: Signal;
+  previousInputs: Signal[];
+  history: Signal[];      // delay
+  remainingTicks: number; // pulse
+  count: number;          // counter
+}
+
+// ============================================
+// Logic Graph
+// ============================================
+
+export class LogicGraph {
+  private interactables: Map<string, InteractableState>;
+  private configs: Map<string, InteractableConfig> = new Map();
+  private nodes: Map<string, NodeRuntime> = new Map();
+  private wires: SignalWire[];
+
+  // Inputs on things that aren't interactables, e.g. 'puzzle_a.reset', keyed by `${id}.${input}`
+  private externalInputs: Record<string, (signal: Signal) => void>;
+
+  // Last signal delivered to each wired input, keyed by `${id}.${input}`
+  private deliveredSignals: Map<string, Signal> = new Map();
+  private warnedRefs: Set<string> = new Set();
+
+  constructor(
+    level: Pick<LevelData, 'interactables' | 'logic' | 'wires'>,
+    interactables: Map<string, InteractableState>,
+    externalInputs: Record<string, (signal: Signal) => void> = {}
+  ) {
+    this.interactables = interactables;
+    this.wires = level.wires ?? [];
+    this.externalInputs = externalInputs;
+
+    for (const config of level.interactables) {
+      this.configs.set(config.id, config);
+    }
+
+    for (const config of level.logic ?? []) {
+      this.nodes.set(config.id, {
+        config,
+        value: 0,
+        previousInputs: config.inputs.map(() => 0),
+        history: [],
+        remainingTicks: 0,
+        count: 0,
+      });
+    }
+
+    // Settle on the level's starting state without touching any interactable
+    this.evaluateNodes(true);
+    for (const [key, signal] of this.collectWireSignals()) {
+      this.deliveredSignals.set(key, signal);
+    }
+  }
+
+  /**
+   * Advance nodes one tick and push changed signals into interactable inputs
+   */
+  update(): void {
+    this.evaluateNodes(false);
+
+    for (const [key, signal] of this.collectWireSignals()) {
+      if (this.deliveredSignals.get(key) === signal) continue;
+      this.deliveredSignals.set(key, signal);
+
+      const external = this.externalInputs[key];
+      if (external) {
+        external(signal);
+        continue;
+      }
+
+      const [targetId, input] = key.split('.');
+      const target = this.interactables.get(targetId);
+      const handler = target && INPUTS[target.type]?.[input];
+      if (!target || !handler) {
+        this.warnOnce(key, `Logic: ${key} is not a known input`);
+        continue;
+      }
+      handler(target, signal, this.configs.get(targetId));
+    }
+  }
+
+  /**
+   * Combine every wire into each input - several wires into one input act as OR
+   */
+  private collectWireSignals(): Map<string, Signal> {
+    const signals = new Map<string, Signal>();
+    for (const wire of this.wires) {
+      const key = `${wire.to}.${wire.input}`;
+      signals.set(key, Math.max(signals.get(key) ?? 0, this.read(wire.from)));
+    }
+    return signals;
+  }
+
+  /**
+   * Nodes run in the order the level lists them - a ref to a later node
+   * reads the value it had last tick
+   */
+  private evaluateNodes(initial: boolean): void {
+    for (const node of this.nodes.values()) {
+      const inputs = node.config.inputs.map((ref) => this.read(ref));
+      node.value = this.evaluateNode(node, inputs, initial);
+      node.previousInputs = inputs;
+    }
+  }
+
+  private evaluateNode(node: NodeRuntime, inputs: Signal[], initial: boolean): Signal {
+    const config = node.config;
+    const first = inputs[0] ?? 0;
+    const rising = (index: number) => !initial && isSignalOn(inputs[index] ?? 0) && !isSignalOn(node.previousInputs[index] ?? 0);
+
+    switch (config.type) {
+      case 'and':
+        return fromBoolean(inputs.length > 0 && inputs.every(isSignalOn));
+
+      case 'or':
+        return fromBoolean(inputs.some(isSignalOn));
+
+      case 'not':
+        return fromBoolean(!isSignalOn(first));
+
+      case 'xor':
+        return fromBoolean(inputs.filter(isSignalOn).length % 2 === 1);
+
+      case 'delay': {
+        const ticks = msToTicks(config.durationMs ?? 0);
+        if (initial) {
+          node.history = new Array(ticks).fill(first);
+        }
+        node.history.push(first);
+        return node.history.shift() ?? first;
+      }
+
+      case 'pulse': {
+        if (rising(0)) {
+          node.remainingTicks = msToTicks(config.durationMs ?? 0);
+        }
+        if (node.remainingTicks <= 0) return 0;
+        node.remainingTicks--;
+        return 1;
+      }
+
+      case 'latch': {
+        // Reset wins when both are on
+        if (isSignalOn(inputs[1] ?? 0)) return 0;
+        if (isSignalOn(first)) return 1;
+        return node.value;
+      }
+
+      case 'counter': {
+        if (rising(1)) node.count = 0;
+        if (rising(0)) node.count++;
+        return fromBoolean(node.count >= (config.count ?? 1));
+      }
+
+      default:
+        return 0;
+    }
+  }
+
+  private read(ref: SignalRef): Signal {
+    const [id, outputName] = ref.split('.');
+
+    const node = this.nodes.get(id);
+    if (node) return node.value;
+
+    const interactable = this.interactables.get(id);
+    const outputs = interactable && OUTPUTS[interactable.type];
+    if (!interactable || !outputs) {
+      this.warnOnce(ref, `Logic: ${ref} has no outputs`);
+      return 0;
+    }
+
+    const output = outputName ? outputs[outputName] : Object.values(outputs)[0];
+    if (!output) {
+      this.warnOnce(ref, `Logic: ${interactable.type} has no output '${outputName}'`);
+      return 0;
+    }
+    return output(interactable.state);
+  }
+
+  private warnOnce(key: string, message: string): void {
+    if (this.warnedRefs.has(key)) return;
+    this.warnedRefs.add(key);
+    console.warn(message);
+  }
+}
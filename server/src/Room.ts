@@ -3,6 +3,7 @@
  * Handles room lifecycle and game state
  */
 
+import { randomUUID } from 'crypto';
 import { PROTOCOL } from '../../shared/protocol';
 import type {
   Role,
@@ -14,28 +15,94 @@ import type {
   PingMarker,
   PingType,
   InputState,
+  Direction8,
   WorldPos,
   LevelData,
-  PuzzleConfig,
   PuzzleState,
   ObjectiveState,
+  PlayerInfo,
+  PlatformMode,
+  GameEvent,
+  PuzzleReward,
 } from '../../shared/types';
-import { DOG, PANDA, PING } from '../../shared/constants';
-import { getLevel } from '../../shared/levels';
+import { PING, SURVEILLANCE, SERVER_TICK_MS, FIXED_TIMESTEP, CRATE, WINCH, PLATFORM, HAZARD, PRESSURE_PLATE, DOG, PANDA, MAX_STEP_HEIGHT } from '../../shared/constants';
+import {
+  applyInput,
+  stepEntity,
+  stepVertical,
+  getPlatformSurfaces,
+  getInteractableObstacles,
+  getCharacterObstacles,
+  getCollisionRadius,
+  getDirection,
+  getWaypointPosition,
+  getWaypointDistances,
+  getFootprint,
+  isInZone,
+  type Surface,
+  INPUT_STEP,
+} from '../../shared/movement';
+import { canReach, getReachFailure, getReachFailureReason } from '../../shared/interaction';
+import { canInteract, getInteractionDenial } from '../../shared/permissions';
+import { diffGameState, type GameStateDelta } from '../../shared/delta';
+import { getLevel, getLevelList, getNextLevelId } from '../../shared/levels';
+import { systemClock, msToTicks, type Clock } from './Clock';
+import { SeededRandom } from './Random';
+import { LogicGraph, isSignalOn } from './Logic';
+import { GameEventTracker } from './GameEvents';
+import { PuzzleConditions } from './Conditions';
+
+// Inputs consumed per entity each tick - clients send one per fixed step
+const STEPS_PER_TICK = Math.round(SERVER_TICK_MS / FIXED_TIMESTEP);
+
+// Steps left unused while inputs were late carry over up to this many, so a
+// delayed batch catches up without letting a fast sender run ahead
+const MAX_STEP_CREDIT = STEPS_PER_TICK * 2;
+
+// How long a momentary button stays down after a press
+const BUTTON_RELEASE_MS = 200;
+
+// Gap between a character's edge and a crate that still counts as pushing it
+const CRATE_CONTACT_SLACK = 0.1;
+
+// How close to a platform's top something has to be to ride it
+const RIDE_TOLERANCE = 0.01;
+
+// Rounding slack when finding which waypoint a platform is resting on
+const WAYPOINT_EPSILON = 1e-6;
+
+interface PlatformRide {
+  platform: InteractableState;
+  from: WorldPos;
+  riders: { position: WorldPos; crateState?: { gridX: number; gridY: number } }[];
+}
+
+export interface RoomOptions {
+  clock?: Clock;   // Defaults to the system clock
+  seed?: number;   // Defaults to the clock's current time
+}
 
 // ============================================
 // Room Code Generation
 // ============================================
 
-function generateRoomCode(): string {
+function generateRoomCode(random: SeededRandom): string {
   const chars = PROTOCOL.ROOM_CODE_CHARS;
   let code = '';
   for (let i = 0; i < PROTOCOL.ROOM_CODE_LENGTH; i++) {
-    code += chars[Math.floor(Math.random() * chars.length)];
+    code += chars[random.nextInt(chars.length)];
   }
   return code;
 }
 
+export type StateUpdate =
+  | { kind: 'keyframe'; gameState: GameState }
+  | { kind: 'delta'; delta: GameStateDelta };
+
+export type CharacterEvent =
+  | { kind: 'knocked_out'; role: Role; hazardId: string; respawnTick: number }
+  | { kind: 'respawned'; role: Role; position: WorldPos };
+
 // ============================================
 // Room Class
 // ============================================
@@ -46,25 +113,66 @@ export class Room {
   private levelData: LevelData | null = null;
   private status: RoomStatus = 'waiting';
   private createdAt: number;
-  private startedAt: number = 0;
+
+  // Wall time is only used for connection bookkeeping - the simulation counts ticks
+  private clock: Clock;
+  private random: SeededRandom;
+  private timers: { tick: number; callback: () => void }[] = [];
 
   private players: Map<string, Role> = new Map();
+  private sessionTokens: Map<string, string> = new Map();    // token -> playerId
+  private disconnectedAt: Map<string, number> = new Map();   // Players inside their reconnect window
+  private resumeOnReconnect = false;
+
+  // Lobby ready-check
+  private readyPlayers: Set<string> = new Set();
+  private countdownTicks: number | null = null;
   private entities: Map<string, EntityState> = new Map();
   private interactables: Map<string, InteractableState> = new Map();
+  private logic: LogicGraph | null = null;
+  private crateHoldTicks: Map<string, number> = new Map();  // crateId -> ticks a character has leaned on it
+  private platformPauseTicks: Map<string, number> = new Map();  // platformId -> ticks left waiting at a waypoint
+  private plateChangeTicks: Map<string, number> = new Map();    // plateId -> ticks its weight has disagreed with activated
+  private checkpoints: Map<Role, WorldPos> = new Map();        // Where each role respawns
+  private knockedOut: Map<string, number> = new Map();         // entityId -> tick it respawns at
+  private characterEvents: CharacterEvent[] = [];
+  private eventTracker = new GameEventTracker(this.interactables);
+  private gameEvents: GameEvent[] = [];                        // Not yet sent to clients
+  private items: Map<Role, Set<string>> = new Map();           // Granted by puzzle rewards
+  private conditions = new PuzzleConditions(this.interactables, this.entities, this.items);
+  private currentPuzzleId: string | null = null;               // Puzzle whose checkpoint was reached last
+  private resetVotes: Set<string> = new Set();                 // Players voting to reset the current puzzle
+  private puzzleResets: string[] = [];                         // Resets not yet reported to clients
   private pings: Map<string, PingMarker> = new Map();
+  private pendingInputs: Map<string, { sequence: number; input: InputState }[]> = new Map();
+  private stepCredits: Map<string, number> = new Map();  // entityId -> input steps it may take this tick
+  private operateHolds: Set<string> = new Set();  // Entities whose latest input holds operate
+  private cameraViews: Map<string, string> = new Map();  // playerId -> camera node being viewed
   private puzzleStates: Map<string, { completed: boolean; objectives: Map<string, boolean> }> = new Map();
+  private availablePuzzles: Set<string> = new Set();               // Prerequisites met - stays so once it happens
+  private puzzleByInteractable: Map<string, string> = new Map();   // interactableId -> puzzle it belongs to
 
   private tick_: number = 0;
   private paused: boolean = false;
-  private lastPingTime: Map<string, number> = new Map();
+  private lastPingTick: Map<string, number> = new Map();
+  private pingExpiryTicks: Map<string, number> = new Map();
+
+  // Delta compression: recent snapshots by tick, and per-player baselines
+  private stateHistory: Map<number, GameState> = new Map();
+  private stateAcks: Map<string, number> = new Map();
+  private keyframeTicks: Map<string, number> = new Map();
+  private reportedPuzzles: Map<string, string> = new Map();
 
-  constructor(roomCode: string, levelId: string, creatorId: string) {
+  constructor(roomCode: string, levelId: string, creatorId: string, options: RoomOptions = {}) {
     this.roomCode = roomCode;
     this.levelId = levelId;
-    this.createdAt = Date.now();
+    this.clock = options.clock ?? systemClock;
+    this.random = new SeededRandom(options.seed ?? this.clock.now());
+    this.createdAt = this.clock.now();
 
     // Creator is always Dog
     this.players.set(creatorId, 'dog');
+    this.sessionTokens.set(randomUUID(), creatorId);
     this.createPlayerEntity(creatorId, 'dog');
   }
 
@@ -76,6 +184,10 @@ export class Room {
     return this.roomCode;
   }
 
+  getLevelId(): string {
+    return this.levelId;
+  }
+
   getRoomState(): RoomState {
     const dogId = this.getPlayerByRole('dog');
     const pandaId = this.getPlayerByRole('panda');
@@ -85,17 +197,27 @@ export class Room {
       status: this.status,
       levelId: this.levelId,
       players: {
-        dog: dogId ? { id: dogId, role: 'dog', connected: true, lastSeen: Date.now() } : undefined,
-        panda: pandaId ? { id: pandaId, role: 'panda', connected: true, lastSeen: Date.now() } : undefined,
+        dog: dogId ? this.getPlayerInfo(dogId, 'dog') : undefined,
+        panda: pandaId ? this.getPlayerInfo(pandaId, 'panda') : undefined,
       },
       createdAt: this.createdAt,
     };
   }
 
+  private getPlayerInfo(playerId: string, role: Role): PlayerInfo {
+    const disconnectedAt = this.disconnectedAt.get(playerId);
+    return {
+      id: playerId,
+      role,
+      connected: disconnectedAt === undefined,
+      lastSeen: disconnectedAt ?? this.clock.now(),
+    };
+  }
+
   getGameState(): GameState {
     return {
       tick: this.tick_,
-      timestamp: Date.now(),
+      timestamp: this.clock.now(),
       entities: this.getEntityStates(),
       interactables: this.getInteractableStates(),
       pings: this.getPings(),
@@ -112,6 +234,7 @@ export class Room {
     if (this.getPlayerByRole(role)) return false;
 
     this.players.set(playerId, role);
+    this.sessionTokens.set(randomUUID(), playerId);
 
     // Create entity for player
     this.createPlayerEntity(playerId, role);
@@ -123,19 +246,127 @@ export class Room {
     return true;
   }
 
-  removePlayer(playerId: string): void {
+  /**
+   * Give up a role slot for good. Returns true if this paused a running game.
+   */
+  removePlayer(playerId: string): boolean {
     const role = this.players.get(playerId);
+    this.stopViewing(playerId);
     this.players.delete(playerId);
+    this.disconnectedAt.delete(playerId);
+    this.requestKeyframe(playerId);
+
+    for (const [token, id] of this.sessionTokens) {
+      if (id === playerId) this.sessionTokens.delete(token);
+    }
 
     if (role) {
       this.entities.delete(`${role}_entity`);
+      this.pendingInputs.delete(`${role}_entity`);
+      this.stepCredits.delete(`${role}_entity`);
+      this.operateHolds.delete(`${role}_entity`);
+      this.knockedOut.delete(`${role}_entity`);
     }
 
+    this.clearReady(playerId);
+
     if (this.status === 'playing') {
-      this.status = 'paused';
-    } else if (this.players.size === 0) {
+      this.setPaused(true);
+      return true;
+    }
+    if (this.players.size === 0 || this.status === 'ready') {
       this.status = 'waiting';
     }
+    return false;
+  }
+
+  /**
+   * Token a player presents to reclaim its slot after losing the connection
+   */
+  getSessionToken(playerId: string): string | undefined {
+    for (const [token, id] of this.sessionTokens) {
+      if (id === playerId) return token;
+    }
+    return undefined;
+  }
+
+  /**
+   * Connection lost - hold the role slot and entity for the reconnect window.
+   * Returns true if this paused a running game.
+   */
+  disconnectPlayer(playerId: string): boolean {
+    const role = this.players.get(playerId);
+    if (!role) return false;
+
+    this.disconnectedAt.set(playerId, this.clock.now());
+    this.requestKeyframe(playerId);
+    this.stopViewing(playerId);
+    this.clearReady(playerId);
+
+    // Stand still rather than keep walking on the last input
+    const entity = this.entities.get(`${role}_entity`);
+    if (entity) {
+      entity.velocity = { x: 0, y: 0 };
+      entity.state = 'idle';
+    }
+    this.pendingInputs.delete(`${role}_entity`);
+    this.operateHolds.delete(`${role}_entity`);
+
+    if (this.status === 'playing') {
+      this.setPaused(true);
+      this.resumeOnReconnect = true;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Player a session token belongs to, whether or not it's still connected
+   */
+  getSessionPlayer(sessionToken: string): string | undefined {
+    return this.sessionTokens.get(sessionToken);
+  }
+
+  /**
+   * Reclaim a held slot. Returns the original player ID, or undefined if the
+   * token is unknown or its window has passed.
+   */
+  reconnectPlayer(sessionToken: string): string | undefined {
+    const playerId = this.sessionTokens.get(sessionToken);
+    if (!playerId || !this.disconnectedAt.has(playerId)) return undefined;
+
+    this.disconnectedAt.delete(playerId);
+    this.requestKeyframe(playerId);
+    return playerId;
+  }
+
+  /**
+   * Resume a game paused by a disconnect once everyone is back.
+   * Returns true if the game resumed.
+   */
+  resumeIfReconnected(): boolean {
+    if (!this.resumeOnReconnect || this.disconnectedAt.size > 0) return false;
+
+    this.resumeOnReconnect = false;
+    this.setPaused(false);
+    return true;
+  }
+
+  isPlayerConnected(playerId: string): boolean {
+    return this.players.has(playerId) && !this.disconnectedAt.has(playerId);
+  }
+
+  /**
+   * Players whose reconnect window has run out
+   */
+  getExpiredPlayers(now: number = this.clock.now()): string[] {
+    const expired: string[] = [];
+    for (const [playerId, since] of this.disconnectedAt) {
+      if (now - since >= PROTOCOL.RECONNECT_WINDOW) {
+        expired.push(playerId);
+      }
+    }
+    return expired;
   }
 
   getPlayerRole(playerId: string): Role | undefined {
@@ -149,6 +380,10 @@ export class Room {
     return undefined;
   }
 
+  getPlayerIds(): string[] {
+    return Array.from(this.players.keys());
+  }
+
   isFull(): boolean {
     return this.players.size === 2;
   }
@@ -161,6 +396,65 @@ export class Room {
     return this.status === 'playing';
   }
 
+  isInLobby(): boolean {
+    return this.status === 'waiting' || this.status === 'ready';
+  }
+
+  // ============================================
+  // Ready Check
+  // ============================================
+
+  /**
+   * Confirm a player is ready. Starts the countdown once both seats have
+   * confirmed. Returns false outside the ready phase.
+   */
+  setPlayerReady(playerId: string): boolean {
+    if (this.status !== 'ready' || !this.isPlayerConnected(playerId)) return false;
+
+    this.readyPlayers.add(playerId);
+
+    if (this.countdownTicks === null && this.readyPlayers.size === this.players.size) {
+      this.countdownTicks = msToTicks(PROTOCOL.START_COUNTDOWN);
+    }
+    return true;
+  }
+
+  /**
+   * The host (Dog seat, the room creator) can stop the countdown; this
+   * withdraws their ready so the countdown restarts when they confirm again
+   */
+  cancelCountdown(playerId: string): boolean {
+    if (this.countdownTicks === null || this.players.get(playerId) !== 'dog') return false;
+
+    this.clearReady(playerId);
+    return true;
+  }
+
+  private clearReady(playerId: string): void {
+    this.readyPlayers.delete(playerId);
+    this.countdownTicks = null;
+  }
+
+  getReadyStates(): Record<Role, boolean> {
+    const dogId = this.getPlayerByRole('dog');
+    const pandaId = this.getPlayerByRole('panda');
+    return {
+      dog: dogId !== undefined && this.readyPlayers.has(dogId),
+      panda: pandaId !== undefined && this.readyPlayers.has(pandaId),
+    };
+  }
+
+  /**
+   * Ms until the game starts, or null when no countdown is running
+   */
+  getCountdownRemaining(): number | null {
+    return this.countdownTicks === null ? null : this.countdownTicks * SERVER_TICK_MS;
+  }
+
+  isCountdownFinished(): boolean {
+    return this.status === 'ready' && this.countdownTicks === 0;
+  }
+
   // ============================================
   // Entity Management
   // ============================================
@@ -195,7 +489,10 @@ export class Room {
   }
 
   getEntityStates(): EntityState[] {
-    return Array.from(this.entities.values());
+    return Array.from(this.entities.values(), (entity) => {
+      const items = this.items.get(entity.type);
+      return items?.size ? { ...entity, items: Array.from(items) } : entity;
+    });
   }
 
   // ============================================
@@ -204,8 +501,19 @@ export class Room {
 
   startGame(): GameState {
     this.status = 'playing';
-    this.startedAt = Date.now();
+    this.readyPlayers.clear();
+    this.countdownTicks = null;
     this.tick_ = 0;
+    this.timers = [];
+    this.pings.clear();
+    this.lastPingTick.clear();
+    this.pingExpiryTicks.clear();
+
+    // Tick numbering restarts, so old baselines are meaningless
+    this.stateHistory.clear();
+    this.stateAcks.clear();
+    this.keyframeTicks.clear();
+    this.reportedPuzzles.clear();
 
     // Initialize level
     this.initializeLevel();
@@ -225,7 +533,15 @@ export class Room {
 
     // Clear existing state
     this.interactables.clear();
+    this.crateHoldTicks.clear();
+    this.platformPauseTicks.clear();
+    this.plateChangeTicks.clear();
+    this.knockedOut.clear();
+    this.characterEvents = [];
+    this.gameEvents = [];
+    this.operateHolds.clear();
     this.puzzleStates.clear();
+    this.cameraViews.clear();
 
     // Load interactables from level data
     for (const config of level.interactables) {
@@ -238,6 +554,28 @@ export class Room {
       });
     }
 
+    // Puzzles take a 'reset' input, e.g. from a reset button
+    const puzzleInputs: Record<string, (signal: number) => void> = {};
+    for (const puzzle of level.puzzles) {
+      puzzleInputs[`${puzzle.id}.reset`] = (signal) => {
+        if (isSignalOn(signal)) this.resetPuzzle(puzzle.id);
+      };
+    }
+    this.logic = new LogicGraph(level, this.interactables, puzzleInputs);
+    this.eventTracker.sync();
+    this.conditions.clear();
+
+    // Puzzles without prerequisites are available from the start
+    this.availablePuzzles.clear();
+    this.puzzleByInteractable.clear();
+    this.items.clear();
+    for (const puzzle of level.puzzles) {
+      if (!puzzle.prerequisites?.length) this.availablePuzzles.add(puzzle.id);
+      for (const id of puzzle.interactableIds ?? []) {
+        this.puzzleByInteractable.set(id, puzzle.id);
+      }
+    }
+
     // Initialize puzzle states
     for (const puzzleConfig of level.puzzles) {
       const objectives = new Map<string, boolean>();
@@ -250,6 +588,14 @@ export class Room {
       });
     }
 
+    // Respawn at the level start until a checkpoint says otherwise
+    this.currentPuzzleId = null;
+    this.resetVotes.clear();
+    this.puzzleResets = [];
+    this.checkpoints.clear();
+    if (level.spawns.dog) this.checkpoints.set('dog', { ...level.spawns.dog });
+    if (level.spawns.panda) this.checkpoints.set('panda', { ...level.spawns.panda });
+
     // Update spawn positions for existing entities
     for (const [, entity] of this.entities) {
       const role = entity.type;
@@ -258,6 +604,8 @@ export class Room {
       } else if (role === 'panda' && level.spawns.panda) {
         entity.position = { ...level.spawns.panda };
       }
+      entity.verticalVelocity = 0;
+      entity.grounded = true;
     }
 
     console.log(`Loaded level: ${level.name} with ${level.interactables.length} interactables and ${level.puzzles.length} puzzles`);
@@ -278,203 +626,349 @@ export class Room {
       type: 'lever',
       position: { x: 8, y: 8, z: 0 },
       state: { position: 'off', requiresStrength: false },
-      linkedIds: ['door_1'],
+      linkedIds: [],
     });
+
+    this.logic = new LogicGraph({
+      interactables: [],
+      wires: [{ from: 'lever_1', to: 'door_1', input: 'open' }],
+    }, this.interactables);
   }
 
-  setPaused(paused: boolean): void {
+  setPaused(paused: boolean): boolean {
+    if (this.status !== 'playing' && this.status !== 'paused') return false;
+
     this.paused = paused;
     this.status = paused ? 'paused' : 'playing';
+    this.resumeOnReconnect = false;
+    this.resetVotes.clear();
+    return true;
   }
 
   getTick(): number {
     return this.tick_;
   }
 
+  /**
+   * Simulated play time - stops while paused and once the level is complete
+   */
   getElapsedTime(): number {
-    return this.startedAt > 0 ? Date.now() - this.startedAt : 0;
+    return this.tick_ * SERVER_TICK_MS;
   }
 
   // ============================================
   // Game Tick
   // ============================================
 
+  /**
+   * Advance the room by one fixed step. This is the only way simulated time
+   * moves, so the same inputs always produce the same states.
+   */
   tick(): void {
-    if (this.paused) return;
+    // The start countdown runs in the lobby, before the simulation does
+    if (this.countdownTicks !== null && this.countdownTicks > 0) {
+      this.countdownTicks--;
+    }
+
+    if (this.status !== 'playing' || this.paused) return;
 
     this.tick_++;
 
+    // Fire timers that came due
+    this.runTimers();
+
     // Update entity positions based on velocity
     this.updateEntities();
 
+    // Slide crates being pushed
+    this.updateCrates();
+
     // Update pressure plates
     this.updatePressurePlates();
 
     // Update winches
     this.updateWinches();
 
+    // Note who is riding platforms before anything moves them
+    const rides = this.getPlatformRides();
+
+    // Carry signals along level wiring
+    this.logic?.update();
+
     // Update platforms
     this.updatePlatforms();
+    this.carryRiders(rides);
+
+    // Cycle hazards and knock out anyone touching a live one
+    this.updateHazards();
+
+    // Rotate cameras being viewed
+    this.updateCameraNodes();
+
+    // Move checkpoints up as characters reach new puzzles
+    this.updateCheckpoints();
+
+    // Note what changed this tick, including interactions since the last one
+    const events = this.eventTracker.collect(this.tick_);
+    this.gameEvents.push(...events);
 
     // Check puzzle completion
-    this.checkPuzzleCompletion();
+    this.checkPuzzleCompletion(events);
 
     // Expire old pings
     this.expirePings();
+
+    // Keep a snapshot to diff client updates against
+    this.recordSnapshot();
+  }
+
+  /**
+   * Run a callback after a delay, counted in ticks so it replays identically
+   */
+  private schedule(delayMs: number, callback: () => void): void {
+    this.timers.push({ tick: this.tick_ + msToTicks(delayMs), callback });
+  }
+
+  private runTimers(): void {
+    const due = this.timers.filter((timer) => timer.tick <= this.tick_);
+    if (due.length === 0) return;
+
+    this.timers = this.timers.filter((timer) => timer.tick > this.tick_);
+    for (const timer of due) {
+      timer.callback();
+    }
   }
 
   private updateEntities(): void {
-    const deltaTime = 1 / PROTOCOL.SERVER_TICK_RATE;
+    // Platforms move and doors open, so the dynamic geometry is collected fresh each tick
+    const surfaces = getPlatformSurfaces(this.interactables.values());
+    const objectObstacles = getInteractableObstacles(this.interactables.values());
 
     for (const entity of this.entities.values()) {
-      if (entity.velocity.x === 0 && entity.velocity.y === 0) continue;
+      // Characters that already moved this tick block from where they ended up
+      const level = this.levelData && {
+        ...this.levelData,
+        surfaces,
+        obstacles: [...objectObstacles, ...getCharacterObstacles(this.entities.values())],
+      };
+
+      const credit = Math.min((this.stepCredits.get(entity.id) ?? 0) + STEPS_PER_TICK, MAX_STEP_CREDIT);
+
+      // Nobody steering still falls, and still rides steps and platforms down.
+      // Velocity is only as fresh as this tick's inputs, so without any it
+      // mustn't keep pushing crates in the last direction walked.
+      const queue = this.pendingInputs.get(entity.id);
+      if (!queue || queue.length === 0) {
+        this.stepCredits.set(entity.id, credit);
+        entity.velocity = { x: 0, y: 0 };
+        stepVertical(level, entity, SERVER_TICK_MS / 1000);
+        continue;
+      }
+
+      // Each input is one client step; replaying them in order keeps the
+      // server in lockstep with the client's prediction
+      const batch = queue.splice(0, credit);
+      this.stepCredits.set(entity.id, credit - batch.length);
+
+      // Knocked out characters can't move, but their inputs are still acknowledged
+      if (this.knockedOut.has(entity.id)) {
+        entity.lastProcessedInput = batch[batch.length - 1].sequence;
+        stepVertical(level, entity, SERVER_TICK_MS / 1000);
+        continue;
+      }
+
+      for (const { sequence, input } of batch) {
+        applyInput(entity, input);
+        stepEntity(level, entity, INPUT_STEP);
+        entity.lastProcessedInput = sequence;
+      }
+
+      if (batch[batch.length - 1].input.operateHold) {
+        this.operateHolds.add(entity.id);
+      } else {
+        this.operateHolds.delete(entity.id);
+      }
+    }
+  }
+
+  private updateCrates(): void {
+    const step = CRATE.PUSH_SPEED * (SERVER_TICK_MS / 1000);
+    const delayTicks = msToTicks(CRATE.PUSH_DELAY);
+
+    for (const crate of this.interactables.values()) {
+      if (crate.type !== 'crate' || this.isInert(crate.id)) continue;
 
-      if (!this.levelData) {
-        // No level data, just move freely
-        entity.position.x += entity.velocity.x * deltaTime;
-        entity.position.y += entity.velocity.y * deltaTime;
+      const state = crate.state as {
+        gridX: number;
+        gridY: number;
+        beingPushed: boolean;
+        pushDirection?: Direction8;
+      };
+
+      if (state.beingPushed) {
+        this.slideCrate(crate, state, step);
         continue;
       }
 
-      // Calculate new positions
-      const newX = entity.position.x + entity.velocity.x * deltaTime;
-      const newY = entity.position.y + entity.velocity.y * deltaTime;
-
-      // Clamp to level bounds (with 0.5 margin from edges)
-      const clampedX = Math.max(1.5, Math.min(this.levelData.width - 1.5, newX));
-      const clampedY = Math.max(1.5, Math.min(this.levelData.height - 1.5, newY));
-
-      // Try to move in both X and Y
-      const canMoveX = this.isTileWalkable(clampedX, entity.position.y);
-      const canMoveY = this.isTileWalkable(entity.position.x, clampedY);
-      const canMoveBoth = this.isTileWalkable(clampedX, clampedY);
-
-      // Wall sliding: try moving in both directions, then individually
-      if (canMoveBoth) {
-        entity.position.x = clampedX;
-        entity.position.y = clampedY;
-      } else if (canMoveX && entity.velocity.x !== 0) {
-        // Can only move in X
-        entity.position.x = clampedX;
-      } else if (canMoveY && entity.velocity.y !== 0) {
-        // Can only move in Y
-        entity.position.y = clampedY;
+      // Find a character leaning into the crate
+      let direction: { x: number; y: number } | null = null;
+      for (const entity of this.entities.values()) {
+        direction = this.getPushDirection(entity, crate);
+        if (direction) break;
+      }
+
+      if (!direction) {
+        this.crateHoldTicks.delete(crate.id);
+        continue;
       }
-      // If neither works, entity stays in place (blocked)
+
+      // Leaning has to last the push delay before the crate gives
+      const held = (this.crateHoldTicks.get(crate.id) ?? 0) + 1;
+      this.crateHoldTicks.set(crate.id, held);
+      if (held < delayTicks) continue;
+
+      const targetX = state.gridX + direction.x;
+      const targetY = state.gridY + direction.y;
+      if (!this.isValidCratePosition(targetX, targetY, crate.id)) continue;
+
+      state.gridX = targetX;
+      state.gridY = targetY;
+      state.beingPushed = true;
+      state.pushDirection = getDirection(direction.x, direction.y);
     }
   }
 
-  private isTileWalkable(x: number, y: number): boolean {
-    if (!this.levelData) return true;
+  /**
+   * Move a crate one step toward its target tile, carrying along whoever is pushing it
+   */
+  private slideCrate(
+    crate: InteractableState,
+    state: { gridX: number; gridY: number; beingPushed: boolean },
+    step: number
+  ): void {
+    const dx = Math.max(-step, Math.min(step, state.gridX - crate.position.x));
+    const dy = Math.max(-step, Math.min(step, state.gridY - crate.position.y));
 
-    const tileX = Math.floor(x);
-    const tileY = Math.floor(y);
+    for (const entity of this.entities.values()) {
+      const direction = this.getPushDirection(entity, crate);
+      if (!direction || direction.x !== Math.sign(dx) || direction.y !== Math.sign(dy)) continue;
+      entity.position.x += dx;
+      entity.position.y += dy;
+    }
+
+    // Land exactly on the tile so grid and position agree once it settles
+    const arrived = dx === state.gridX - crate.position.x && dy === state.gridY - crate.position.y;
+    if (arrived) {
+      crate.position.x = state.gridX;
+      crate.position.y = state.gridY;
+      state.beingPushed = false;
+    } else {
+      crate.position.x += dx;
+      crate.position.y += dy;
+    }
+  }
 
-    // Out of bounds is not walkable
-    if (tileY < 0 || tileY >= this.levelData.tiles.length) return false;
+  /**
+   * Cardinal direction an entity is pushing a crate in, or null if it isn't
+   * walking into it. Only characters strong enough for heavy objects can push.
+   */
+  private getPushDirection(entity: EntityState, crate: InteractableState): { x: number; y: number } | null {
+    const canPush = entity.type === 'dog' ? DOG.CAN_PUSH_HEAVY : PANDA.CAN_PUSH_HEAVY;
+    if (!canPush && CRATE.WEIGHT === 'heavy') return null;
+    if (entity.grounded === false || entity.position.z !== crate.position.z) return null;
 
-    const row = this.levelData.tiles[tileY];
-    if (!row || tileX < 0 || tileX >= row.length) return false;
+    const { x: vx, y: vy } = entity.velocity;
+    if (vx === 0 && vy === 0) return null;
 
-    const tile = row[tileX];
-    return tile.walkable === true;
+    // Push along whichever axis the character is mostly moving on
+    const direction = Math.abs(vx) >= Math.abs(vy)
+      ? { x: Math.sign(vx), y: 0 }
+      : { x: 0, y: Math.sign(vy) };
+
+    const offsetX = crate.position.x - entity.position.x;
+    const offsetY = crate.position.y - entity.position.y;
+    const along = offsetX * direction.x + offsetY * direction.y;
+    const across = Math.abs(direction.x !== 0 ? offsetY : offsetX);
+
+    const reach = 0.5 + getCollisionRadius(entity.type) + CRATE_CONTACT_SLACK;
+    if (along <= 0 || along > reach || across >= 0.5) return null;
+
+    return direction;
   }
 
   private updatePressurePlates(): void {
+    const weights = PRESSURE_PLATE.WEIGHTS;
+
     for (const [, interactable] of this.interactables) {
-      if (interactable.type !== 'pressure_plate') continue;
+      if (interactable.type !== 'pressure_plate' || this.isInert(interactable.id)) continue;
 
       const plateState = interactable.state as {
         activated: boolean;
-        weightThreshold: 'light' | 'heavy';
+        weightThreshold: 'light' | 'heavy' | number;
         currentWeight: number;
+        activationDelay?: number;
+        deactivationDelay?: number;
       };
 
       // Check for entities/crates on the plate
       let totalWeight = 0;
       const platePos = interactable.position;
-      const plateRadius = 0.8;
 
-      // Check entities
+      // Check entities - a character jumping over or crossing a bridge above isn't on it
       for (const entity of this.entities.values()) {
+        if (Math.abs(entity.position.z - platePos.z) > MAX_STEP_HEIGHT) continue;
         const dx = entity.position.x - platePos.x;
         const dy = entity.position.y - platePos.y;
         const dist = Math.sqrt(dx * dx + dy * dy);
 
-        if (dist < plateRadius) {
-          // Dog = light weight, Panda = heavy weight
-          totalWeight += entity.type === 'panda' ? 2 : 1;
+        if (dist < PRESSURE_PLATE.RADIUS) {
+          totalWeight += weights[entity.type === 'dog' ? DOG.WEIGHT : PANDA.WEIGHT];
         }
       }
 
-      // Check crates on plate
+      // Check crates on plate - a sliding crate only counts once it settles
       for (const other of this.interactables.values()) {
         if (other.type !== 'crate') continue;
+        if ((other.state as { beingPushed: boolean }).beingPushed) continue;
+        if (Math.abs(other.position.z - platePos.z) > MAX_STEP_HEIGHT) continue;
         const dx = other.position.x - platePos.x;
         const dy = other.position.y - platePos.y;
         const dist = Math.sqrt(dx * dx + dy * dy);
 
-        if (dist < plateRadius) {
-          totalWeight += 2; // Crates are heavy
+        if (dist < PRESSURE_PLATE.RADIUS) {
+          totalWeight += weights[CRATE.WEIGHT];
         }
       }
 
-      const wasActivated = plateState.activated;
       plateState.currentWeight = totalWeight;
-      const requiredWeight = plateState.weightThreshold === 'heavy' ? 2 : 1;
-      plateState.activated = totalWeight >= requiredWeight;
-
-      // Trigger linked objects on state change
-      if (plateState.activated !== wasActivated) {
-        this.handlePressurePlateChange(interactable, plateState.activated);
-      }
-    }
-  }
-
-  private handlePressurePlateChange(plate: InteractableState, activated: boolean): void {
-    if (!plate.linkedIds) return;
+      const threshold = plateState.weightThreshold;
+      const requiredWeight = typeof threshold === 'number' ? threshold : weights[threshold];
+      const pressed = totalWeight >= requiredWeight;
 
-    for (const linkedId of plate.linkedIds) {
-      const linked = this.interactables.get(linkedId);
-      if (!linked) continue;
-
-      if (linked.type === 'hazard') {
-        // Deactivate hazard when plate is pressed
-        const hazardState = linked.state as { active: boolean };
-        hazardState.active = !activated;
-      } else if (linked.type === 'door') {
-        // Check if this door requires multiple plates
-        this.checkDoorUnlock(linked);
+      if (pressed === plateState.activated) {
+        this.plateChangeTicks.delete(interactable.id);
+        continue;
       }
-    }
-  }
 
-  private checkDoorUnlock(door: InteractableState): void {
-    // Find all pressure plates linked to this door
-    const requiredPlates: InteractableState[] = [];
-    for (const [, interactable] of this.interactables) {
-      if (interactable.type === 'pressure_plate' && interactable.linkedIds?.includes(door.id)) {
-        requiredPlates.push(interactable);
+      // Weight has to stay over (or off) the plate for the delay before it
+      // flips, so brushing its edge doesn't flicker whatever it's wired to
+      const delay = pressed
+        ? plateState.activationDelay ?? PRESSURE_PLATE.ACTIVATION_DELAY
+        : plateState.deactivationDelay ?? PRESSURE_PLATE.DEACTIVATION_DELAY;
+      const ticks = (this.plateChangeTicks.get(interactable.id) ?? 0) + 1;
+
+      if (ticks >= msToTicks(delay)) {
+        plateState.activated = pressed;
+        this.plateChangeTicks.delete(interactable.id);
+      } else {
+        this.plateChangeTicks.set(interactable.id, ticks);
       }
     }
-
-    // Check if all required plates are activated
-    const allActivated = requiredPlates.every(plate => {
-      const state = plate.state as { activated: boolean };
-      return state.activated;
-    });
-
-    const doorState = door.state as { locked: boolean; open: boolean };
-    if (allActivated && requiredPlates.length > 0) {
-      doorState.locked = false;
-      doorState.open = true;
-    } else if (requiredPlates.length > 0) {
-      doorState.locked = true;
-      doorState.open = false;
-    }
   }
 
   private updateWinches(): void {
+    const dt = SERVER_TICK_MS / 1000;
+
     for (const [, interactable] of this.interactables) {
       if (interactable.type !== 'winch') continue;
 
@@ -482,58 +976,159 @@ export class Room {
         operating: boolean;
         extended: number;
         requiresPower: boolean;
-        poweredById?: string;
+        powered?: boolean;
+        ratchet?: boolean;
       };
 
-      // Check if power is required and provided
-      if (winchState.requiresPower && winchState.poweredById) {
-        const powerSource = this.interactables.get(winchState.poweredById);
-        if (powerSource && powerSource.type === 'lever') {
-          const leverState = powerSource.state as { position: string };
-          if (leverState.position !== 'on') {
-            winchState.operating = false;
-            continue;
-          }
-        }
+      // Held winches run only while someone keeps holding operate next to them
+      if (WINCH.REQUIRE_HOLD) {
+        winchState.operating = this.isWinchHeld(interactable);
+      }
+
+      // Power arrives through the logic graph
+      if (winchState.requiresPower && !winchState.powered) {
+        winchState.operating = false;
       }
 
-      // Update extension
       if (winchState.operating) {
-        winchState.extended = Math.min(1, winchState.extended + 0.02);
-        if (winchState.extended >= 1) {
-          winchState.operating = false;
-          // Trigger linked platforms
-          this.triggerWinchPlatforms(interactable);
-        }
+        winchState.extended = Math.min(1, winchState.extended + WINCH.OPERATE_SPEED * dt);
+      } else if (!winchState.ratchet) {
+        // Unwinds slowly once let go
+        winchState.extended = Math.max(0, winchState.extended - WINCH.RETRACT_SPEED * dt);
       }
     }
   }
 
-  private triggerWinchPlatforms(winch: InteractableState): void {
-    if (!winch.linkedIds) return;
+  private isWinchHeld(winch: InteractableState): boolean {
+    if (this.isInert(winch.id)) return false;
 
-    for (const linkedId of winch.linkedIds) {
-      const linked = this.interactables.get(linkedId);
-      if (!linked || linked.type !== 'platform') continue;
+    for (const entity of this.entities.values()) {
+      if (!this.operateHolds.has(entity.id)) continue;
+      if (!canInteract(entity.type, winch.type, winch.state, 'operate_start')) continue;
+      if (canReach(entity, winch)) return true;
+    }
+    return false;
+  }
 
-      const platformState = linked.state as {
-        currentPosition: number;
-        moving: boolean;
-        waypoints: WorldPos[];
+  private updateHazards(): void {
+    for (const hazard of this.interactables.values()) {
+      if (hazard.type !== 'hazard') continue;
+
+      const state = hazard.state as {
+        active: boolean;
+        hazardType: 'laser' | 'spikes' | 'electric';
+        cycleTime?: number;
+        cycleOffset?: number;
+        enabled?: boolean;
       };
 
-      // Move platform to extended position
-      platformState.currentPosition = 1;
-      platformState.moving = false;
+      // Cycling hazards follow the tick count, so every replay cycles the same.
+      // A disabled one stays off but keeps its place in the cycle.
+      if (state.cycleTime) {
+        const period = Math.max(2, msToTicks(state.cycleTime));
+        const phase = (this.tick_ + msToTicks(state.cycleOffset ?? 0)) % period;
+        state.active = state.enabled !== false && phase < period / 2;
+      }
+
+      if (!state.active) continue;
 
-      // Update platform position to the raised waypoint
-      if (platformState.waypoints && platformState.waypoints.length > 1) {
-        linked.position = { ...platformState.waypoints[1] };
+      for (const entity of this.entities.values()) {
+        if (this.knockedOut.has(entity.id)) continue;
+        if (this.touchesHazard(entity, hazard, state.hazardType)) {
+          this.knockOut(entity, hazard.id);
+        }
       }
     }
   }
 
+  /**
+   * Lasers catch anything within their beam's height; spikes and electric
+   * floors only hurt characters standing on them, so they can be jumped
+   */
+  private touchesHazard(entity: EntityState, hazard: InteractableState, hazardType: string): boolean {
+    const box = getFootprint(hazard);
+    const closestX = Math.max(box.minX, Math.min(box.maxX, entity.position.x));
+    const closestY = Math.max(box.minY, Math.min(box.maxY, entity.position.y));
+    const distance = Math.hypot(entity.position.x - closestX, entity.position.y - closestY);
+    if (distance >= getCollisionRadius(entity.type)) return false;
+
+    const height = entity.position.z - hazard.position.z;
+    if (hazardType === 'laser') {
+      return height >= 0 && height < HAZARD.LASER_HEIGHT;
+    }
+    return entity.grounded !== false && Math.abs(height) <= RIDE_TOLERANCE;
+  }
+
+  private knockOut(entity: EntityState, hazardId: string): void {
+    const respawnTick = this.tick_ + msToTicks(HAZARD.RESPAWN_DELAY);
+    this.knockedOut.set(entity.id, respawnTick);
+    this.operateHolds.delete(entity.id);
+    entity.velocity = { x: 0, y: 0 };
+    entity.state = 'knocked_out';
+
+    this.characterEvents.push({ kind: 'knocked_out', role: entity.type, hazardId, respawnTick });
+    this.schedule(HAZARD.RESPAWN_DELAY, () => this.respawn(entity, respawnTick));
+  }
+
+  /**
+   * Bring a character back from the knockout that scheduled this. A puzzle
+   * reset can clear that knockout early, and a later one has its own timer.
+   */
+  private respawn(entity: EntityState, respawnTick: number): void {
+    if (this.knockedOut.get(entity.id) !== respawnTick) return;
+    this.knockedOut.delete(entity.id);
+
+    const checkpoint = this.checkpoints.get(entity.type) ?? this.getSpawnPosition(entity.type);
+    entity.position = { ...checkpoint };
+    entity.velocity = { x: 0, y: 0 };
+    entity.verticalVelocity = 0;
+    entity.grounded = true;
+    entity.state = 'idle';
+
+    this.characterEvents.push({ kind: 'respawned', role: entity.type, position: { ...checkpoint } });
+  }
+
+  /**
+   * Knockouts and respawns since the last call, for the server to broadcast
+   */
+  takeCharacterEvents(): CharacterEvent[] {
+    const events = this.characterEvents;
+    this.characterEvents = [];
+    return events;
+  }
+
+  /**
+   * Gameplay events since the last call, in the order they happened
+   */
+  takeGameEvents(): GameEvent[] {
+    const events = this.gameEvents;
+    this.gameEvents = [];
+    return events;
+  }
+
+  private updateCameraNodes(): void {
+    const step = SURVEILLANCE.CAMERA_ROTATE_SPEED * (SERVER_TICK_MS / 1000);
+
+    for (const interactable of this.interactables.values()) {
+      if (interactable.type !== 'camera_node') continue;
+
+      const state = interactable.state as {
+        active: boolean;
+        rotation: number;
+        minRotation: number;
+        maxRotation: number;
+        rotateDirection?: number;
+      };
+      if (!state.active || !state.rotateDirection) continue;
+
+      const rotation = state.rotation + state.rotateDirection * step;
+      state.rotation = Math.max(state.minRotation, Math.min(state.maxRotation, rotation));
+    }
+  }
+
   private updatePlatforms(): void {
+    const dt = SERVER_TICK_MS / 1000;
+
     for (const [, interactable] of this.interactables) {
       if (interactable.type !== 'platform') continue;
 
@@ -541,51 +1136,153 @@ export class Room {
         currentPosition: number;
         moving: boolean;
         direction: 1 | -1;
-        speed: number;
+        speed?: number;
         waypoints: WorldPos[];
+        mode?: PlatformMode;
+        pauseMs?: number;
       };
 
       if (!platformState.moving || !platformState.waypoints || platformState.waypoints.length < 2) {
         continue;
       }
 
-      // Update position along path
-      platformState.currentPosition += platformState.direction * platformState.speed * 0.02;
+      // Waiting at a waypoint
+      const pauseTicks = this.platformPauseTicks.get(interactable.id) ?? 0;
+      if (pauseTicks > 0) {
+        this.platformPauseTicks.set(interactable.id, pauseTicks - 1);
+        continue;
+      }
 
-      // Clamp and reverse direction at endpoints
-      if (platformState.currentPosition >= 1) {
-        platformState.currentPosition = 1;
-        platformState.direction = -1;
-      } else if (platformState.currentPosition <= 0) {
-        platformState.currentPosition = 0;
-        platformState.direction = 1;
+      const mode = platformState.mode ?? 'ping_pong';
+      const distances = getWaypointDistances(platformState.waypoints, mode === 'loop');
+      const total = distances[distances.length - 1];
+      if (total === 0) continue;
+
+      const travel = (platformState.speed ?? PLATFORM.DEFAULT_SPEED) * dt;
+      const direction = platformState.direction;
+      let distance = platformState.currentPosition * total;
+
+      // Next waypoint in the direction of travel, skipping the one it's resting on
+      const ahead = direction > 0
+        ? distances.find((d) => d > distance + WAYPOINT_EPSILON)
+        : [...distances].reverse().find((d) => d < distance - WAYPOINT_EPSILON);
+
+      if (ahead === undefined || Math.abs(ahead - distance) <= travel) {
+        // Stop on the waypoint and wait there before moving on
+        distance = ahead ?? distance;
+        this.platformPauseTicks.set(
+          interactable.id,
+          msToTicks(platformState.pauseMs ?? PLATFORM.PAUSE_AT_ENDS)
+        );
+
+        const atEnd = direction > 0 ? distance >= total : distance <= 0;
+        if (atEnd) {
+          if (mode === 'loop') {
+            // The path's end is its start, so carry on round
+            distance = direction > 0 ? 0 : total;
+          } else {
+            platformState.direction = direction > 0 ? -1 : 1;
+            // One-shot platforms come back on their next run
+            if (mode === 'once') platformState.moving = false;
+          }
+        }
+      } else {
+        distance += direction * travel;
       }
 
-      // Interpolate position between waypoints
-      const start = platformState.waypoints[0];
-      const end = platformState.waypoints[1];
-      const t = platformState.currentPosition;
+      platformState.currentPosition = distance / total;
+      interactable.position = getWaypointPosition(platformState.waypoints, platformState.currentPosition, mode === 'loop');
+    }
+  }
+
+  /**
+   * Characters and crates standing on top of each platform
+   */
+  private getPlatformRides(): PlatformRide[] {
+    const rides: PlatformRide[] = [];
 
-      interactable.position = {
-        x: start.x + (end.x - start.x) * t,
-        y: start.y + (end.y - start.y) * t,
-        z: start.z + (end.z - start.z) * t,
-      };
+    const isOn = (surface: Surface, pos: WorldPos) =>
+      pos.x >= surface.minX && pos.x < surface.maxX &&
+      pos.y >= surface.minY && pos.y < surface.maxY &&
+      Math.abs(pos.z - surface.z) <= RIDE_TOLERANCE;
+
+    for (const platform of this.interactables.values()) {
+      if (platform.type !== 'platform') continue;
+
+      const [surface] = getPlatformSurfaces([platform]);
+      const riders: PlatformRide['riders'] = [];
+
+      for (const entity of this.entities.values()) {
+        if (entity.grounded === false || !isOn(surface, entity.position)) continue;
+        riders.push({ position: entity.position });
+      }
+      for (const crate of this.interactables.values()) {
+        if (crate.type !== 'crate' || !isOn(surface, crate.position)) continue;
+        riders.push({ position: crate.position, crateState: crate.state as { gridX: number; gridY: number } });
+      }
+
+      if (riders.length > 0) {
+        rides.push({ platform, from: { ...platform.position }, riders });
+      }
+    }
+
+    return rides;
+  }
+
+  /**
+   * Move riders by however far their platform moved this tick
+   */
+  private carryRiders(rides: PlatformRide[]): void {
+    for (const { platform, from, riders } of rides) {
+      const dx = platform.position.x - from.x;
+      const dy = platform.position.y - from.y;
+      const dz = platform.position.z - from.z;
+      if (dx === 0 && dy === 0 && dz === 0) continue;
+
+      for (const rider of riders) {
+        rider.position.x += dx;
+        rider.position.y += dy;
+        rider.position.z += dz;
+
+        // Keep a crate's push target one whole tile from where it now sits
+        if (rider.crateState) {
+          rider.crateState.gridX += dx;
+          rider.crateState.gridY += dy;
+        }
+      }
     }
   }
 
-  private checkPuzzleCompletion(): void {
+  /**
+   * Events are this tick's so far - objectives and puzzles completed here are
+   * added as they happen, so later puzzles' conditions see them too
+   */
+  private checkPuzzleCompletion(events: GameEvent[]): void {
     if (!this.levelData) return;
 
     for (const puzzleConfig of this.levelData.puzzles) {
       const puzzleState = this.puzzleStates.get(puzzleConfig.id);
       if (!puzzleState || puzzleState.completed) continue;
 
+      // Locked puzzles are inert until everything they depend on is solved
+      if (!this.availablePuzzles.has(puzzleConfig.id)) {
+        const prerequisites = puzzleConfig.prerequisites ?? [];
+        if (!prerequisites.every((id) => this.puzzleStates.get(id)?.completed)) continue;
+        this.makePuzzleAvailable(puzzleConfig.id, events);
+      }
+
       let allRequired = true;
 
       for (const objective of puzzleConfig.objectives) {
-        const completed = this.checkObjective(objective.condition);
+        // Optional objectives are bonus tasks - once done they stay done
+        const wasCompleted = puzzleState.objectives.get(objective.id) === true;
+        const path = `${puzzleConfig.id}/${objective.id}`;
+        const met = this.conditions.evaluate(objective.condition, path, this.tick_, events);
+        const completed = met || (objective.optional === true && wasCompleted);
         puzzleState.objectives.set(objective.id, completed);
+        if (completed && !wasCompleted) {
+          this.reportGameEvent(events, { kind: 'objective_completed', tick: this.tick_, puzzleId: puzzleConfig.id, objectiveId: objective.id });
+        }
 
         if (!objective.optional && !completed) {
           allRequired = false;
@@ -595,118 +1292,133 @@ export class Room {
       if (allRequired) {
         puzzleState.completed = true;
         console.log(`Puzzle completed: ${puzzleConfig.name}`);
+        this.reportGameEvent(events, { kind: 'puzzle_completed', tick: this.tick_, puzzleId: puzzleConfig.id });
 
-        // Trigger completion reward
-        if (puzzleConfig.completionReward) {
-          const reward = this.interactables.get(puzzleConfig.completionReward);
-          if (reward && reward.type === 'door') {
-            const doorState = reward.state as { locked: boolean; open: boolean };
-            doorState.locked = false;
-            doorState.open = true;
-          }
+        for (const reward of puzzleConfig.rewards ?? []) {
+          this.applyReward(reward, events);
         }
       }
     }
   }
 
-  private checkObjective(condition: PuzzleConfig['objectives'][0]['condition']): boolean {
-    switch (condition.type) {
-      case 'interactable_state': {
-        if (!condition.targetId || !condition.state) return false;
-        const interactable = this.interactables.get(condition.targetId);
-        if (!interactable) return false;
+  private makePuzzleAvailable(puzzleId: string, events: GameEvent[]): void {
+    if (this.availablePuzzles.has(puzzleId)) return;
+    this.availablePuzzles.add(puzzleId);
+    this.reportGameEvent(events, { kind: 'puzzle_available', tick: this.tick_, puzzleId });
+  }
+
+  private applyReward(reward: PuzzleReward, events: GameEvent[]): void {
+    switch (reward.type) {
+      case 'set_state': {
+        const target = this.interactables.get(reward.targetId);
+        if (!target) {
+          console.warn(`Reward: ${reward.targetId} not found`);
+          return;
+        }
+        Object.assign(target.state, structuredClone(reward.state));
+        break;
+      }
 
-        // Check if the interactable's state matches the condition
-        for (const [key, value] of Object.entries(condition.state)) {
-          if ((interactable.state as Record<string, unknown>)[key] !== value) {
-            return false;
-          }
+      case 'unlock_door': {
+        const door = this.interactables.get(reward.targetId);
+        if (!door || door.type !== 'door') {
+          console.warn(`Reward: ${reward.targetId} is not a door`);
+          return;
         }
-        return true;
+        door.state.locked = false;
+        if (reward.open !== false) door.state.open = true;
+        break;
       }
 
-      case 'both_players_in_zone': {
-        if (!condition.zoneMin || !condition.zoneMax) return false;
+      case 'spawn_interactable': {
+        const config = reward.interactable;
+        this.interactables.set(config.id, {
+          id: config.id,
+          type: config.type,
+          position: { ...config.position },
+          state: structuredClone(config.initialState),
+          linkedIds: config.linkedIds ? [...config.linkedIds] : [],
+        });
+        break;
+      }
 
-        let dogInZone = false;
-        let pandaInZone = false;
+      case 'enable_puzzle':
+        this.makePuzzleAvailable(reward.puzzleId, events);
+        break;
 
-        for (const entity of this.entities.values()) {
-          const pos = entity.position;
-          const inZone = (
-            pos.x >= condition.zoneMin.x && pos.x <= condition.zoneMax.x &&
-            pos.y >= condition.zoneMin.y && pos.y <= condition.zoneMax.y
-          );
+      case 'reveal_area':
+        this.reportGameEvent(events, {
+          kind: 'area_revealed',
+          tick: this.tick_,
+          areaId: reward.areaId,
+          name: reward.name,
+          zone: reward.zone,
+        });
+        break;
 
-          if (inZone) {
-            if (entity.type === 'dog') dogInZone = true;
-            if (entity.type === 'panda') pandaInZone = true;
+      case 'grant_item': {
+        const roles: Role[] = reward.role ? [reward.role] : ['dog', 'panda'];
+        for (const role of roles) {
+          let items = this.items.get(role);
+          if (!items) {
+            items = new Set();
+            this.items.set(role, items);
           }
+          items.add(reward.item);
+          this.reportGameEvent(events, { kind: 'item_granted', tick: this.tick_, item: reward.item, role });
         }
-
-        return dogInZone && pandaInZone;
+        break;
       }
+    }
+  }
 
-      case 'all_objectives': {
-        // This is handled by the main puzzle completion check
-        return true;
-      }
+  /**
+   * Interactables of a puzzle whose prerequisites aren't solved yet ignore players
+   */
+  private isInert(interactableId: string): boolean {
+    const puzzleId = this.puzzleByInteractable.get(interactableId);
+    return puzzleId !== undefined && !this.availablePuzzles.has(puzzleId);
+  }
 
-      default:
-        return false;
-    }
+  private reportGameEvent(events: GameEvent[], event: GameEvent): void {
+    events.push(event);
+    this.gameEvents.push(event);
   }
 
   // ============================================
   // Input Handling
   // ============================================
 
-  handleInput(playerId: string, tick: number, input: InputState, position: WorldPos): void {
+  handleInput(playerId: string, sequence: number, input: InputState): void {
     const role = this.players.get(playerId);
     if (!role) return;
 
     const entityId = `${role}_entity`;
-    const entity = this.entities.get(entityId);
-    if (!entity) return;
+    if (!this.entities.has(entityId)) return;
 
-    // Update entity state based on input
-    const speed = role === 'dog'
-      ? (input.run ? DOG.RUN_SPEED : DOG.WALK_SPEED)
-      : (input.run ? PANDA.RUN_SPEED : PANDA.WALK_SPEED);
+    let queue = this.pendingInputs.get(entityId);
+    if (!queue) {
+      queue = [];
+      this.pendingInputs.set(entityId, queue);
+    }
 
-    entity.velocity = {
-      x: input.moveX * speed,
-      y: input.moveY * speed,
-    };
+    // Ignore duplicates and stale inputs
+    const last = queue.length > 0
+      ? queue[queue.length - 1].sequence
+      : this.entities.get(entityId)!.lastProcessedInput ?? 0;
+    if (sequence <= last) return;
 
-    // Update facing direction
-    if (input.moveX !== 0 || input.moveY !== 0) {
-      entity.facing = this.getDirection(input.moveX, input.moveY);
-    }
+    queue.push({ sequence, input });
 
-    // Update state
-    if (input.moveX !== 0 || input.moveY !== 0) {
-      entity.state = input.run ? 'run' : 'walk';
-    } else {
-      entity.state = 'idle';
+    // Drop the oldest inputs if the client floods us
+    if (queue.length > PROTOCOL.INPUT_BUFFER_SIZE) {
+      queue.splice(0, queue.length - PROTOCOL.INPUT_BUFFER_SIZE);
     }
 
-    // Server is authoritative - position is calculated from velocity in updateEntities()
+    // Server is authoritative - position is calculated from queued inputs in updateEntities()
     // Client position is ignored to prevent cheating
   }
 
-  private getDirection(x: number, y: number): EntityState['facing'] {
-    if (y < 0 && x === 0) return 'N';
-    if (y < 0 && x > 0) return 'NE';
-    if (y === 0 && x > 0) return 'E';
-    if (y > 0 && x > 0) return 'SE';
-    if (y > 0 && x === 0) return 'S';
-    if (y > 0 && x < 0) return 'SW';
-    if (y === 0 && x < 0) return 'W';
-    if (y < 0 && x < 0) return 'NW';
-    return 'S';
-  }
-
   // ============================================
   // Interaction Handling
   // ============================================
@@ -727,58 +1439,34 @@ export class Room {
       return { success: false, reason: 'Interactable not found' };
     }
 
-    // Validate permission based on role and interactable type
-    if (!this.canInteract(role, interactable, action)) {
-      return { success: false, reason: 'Permission denied' };
+    // Validate permission based on role, interactable type and its state
+    const denial = getInteractionDenial(role, interactable.type, interactable.state, action);
+    if (denial) {
+      return { success: false, reason: denial };
     }
 
-    // Process interaction
-    return this.processInteraction(interactable, action, role, data);
-  }
-
-  private canInteract(role: Role, interactable: InteractableState, action: string): boolean {
-    switch (interactable.type) {
-      case 'crate':
-        // Only Panda can push crates
-        return role === 'panda' && action === 'push';
-
-      case 'winch':
-        // Only Panda can operate winches
-        return role === 'panda';
-
-      case 'pressure_plate':
-        // Can't directly interact with pressure plates
-        return false;
-
-      case 'lever':
-        const leverState = interactable.state as { requiresStrength: boolean };
-        if (leverState.requiresStrength && role === 'dog') {
-          return false;
-        }
-        return true;
-
-      case 'door':
-        const doorState = interactable.state as { requiresHeavy: boolean; locked: boolean };
-        if (doorState.locked) return false;
-        if (doorState.requiresHeavy && role === 'dog') {
-          return false;
-        }
-        return true;
-
-      case 'camera_node':
-        // Only Dog can use camera nodes
-        return role === 'dog';
-
-      case 'button':
-        // Both can use buttons
-        return true;
+    if (this.isInert(interactable.id)) {
+      return { success: false, reason: 'Not available yet' };
+    }
 
-      default:
-        return true;
+    // The character has to be standing at it - except to steer or leave the camera it's looking through
+    const entity = this.entities.get(`${role}_entity`);
+    if (!entity) {
+      return { success: false, reason: 'Invalid player' };
+    }
+    if (this.cameraViews.get(playerId) !== interactable.id) {
+      const failure = getReachFailure(entity, interactable);
+      if (failure) {
+        return { success: false, reason: getReachFailureReason(failure) };
+      }
     }
+
+    // Process interaction
+    return this.processInteraction(playerId, interactable, action, role, data);
   }
 
   private processInteraction(
+    playerId: string,
     interactable: InteractableState,
     action: string,
     role: Role,
@@ -798,8 +1486,6 @@ export class Room {
         const state = interactable.state as { position: string };
         if (action === 'toggle') {
           state.position = state.position === 'off' ? 'on' : 'off';
-          // Trigger linked objects
-          this.triggerLinkedObjects(interactable);
           return { success: true, newState: state };
         }
         break;
@@ -809,7 +1495,15 @@ export class Room {
         const state = interactable.state as { pressed: boolean; momentary: boolean };
         if (action === 'press') {
           state.pressed = true;
-          this.triggerLinkedObjects(interactable);
+          // Momentary buttons spring back so the press reads as a pulse. The
+          // button is looked up again then, since a puzzle reset replaces its state.
+          if (state.momentary) {
+            const buttonId = interactable.id;
+            this.schedule(BUTTON_RELEASE_MS, () => {
+              const button = this.interactables.get(buttonId);
+              if (button) button.state.pressed = false;
+            });
+          }
           return { success: true, newState: state };
         } else if (action === 'release' && state.momentary) {
           state.pressed = false;
@@ -818,48 +1512,22 @@ export class Room {
         break;
       }
 
-      case 'crate': {
-        const state = interactable.state as { gridX: number; gridY: number; beingPushed: boolean };
-        if (action === 'push') {
-          // Get pusher position to determine direction
-          const entityId = `${role}_entity`;
-          const entity = this.entities.get(entityId);
-          if (!entity) break;
-
-          // Calculate push direction based on entity position relative to crate
-          const dx = interactable.position.x - entity.position.x;
-          const dy = interactable.position.y - entity.position.y;
-
-          // Normalize to unit direction
-          let pushX = 0;
-          let pushY = 0;
-          if (Math.abs(dx) > Math.abs(dy)) {
-            pushX = dx > 0 ? 1 : -1;
+      case 'camera_node': {
+        if (action === 'view') {
+          // Viewing the same camera again steps back out
+          if (this.cameraViews.get(playerId) === interactable.id) {
+            this.stopViewing(playerId);
           } else {
-            pushY = dy > 0 ? 1 : -1;
+            this.startViewing(playerId, interactable);
           }
-
-          // Calculate new position
-          const newX = interactable.position.x + pushX;
-          const newY = interactable.position.y + pushY;
-
-          // Validate push (check bounds and collisions)
-          if (this.isValidCratePosition(newX, newY)) {
-            state.beingPushed = true;
-            state.gridX = Math.round(newX);
-            state.gridY = Math.round(newY);
-            interactable.position.x = newX;
-            interactable.position.y = newY;
-
-            // Clear beingPushed after a short delay
-            setTimeout(() => {
-              state.beingPushed = false;
-            }, 200);
-
-            return { success: true, newState: state };
+          return { success: true, newState: interactable.state };
+        } else if (action === 'rotate') {
+          if (this.cameraViews.get(playerId) !== interactable.id) {
+            return { success: false, reason: 'Not viewing this camera' };
           }
-
-          return { success: false, reason: 'Cannot push there' };
+          const state = interactable.state as { rotateDirection?: number };
+          state.rotateDirection = Math.sign(Number(data?.direction) || 0);
+          return { success: true, newState: interactable.state };
         }
         break;
       }
@@ -880,7 +1548,79 @@ export class Room {
     return { success: false, reason: 'Invalid action' };
   }
 
-  private isValidCratePosition(x: number, y: number): boolean {
+  // ============================================
+  // Surveillance
+  // ============================================
+
+  /**
+   * Surveillance toggle from the client. Entering with a camera node looks
+   * through it; leaving stops any camera view.
+   */
+  handleSurveillance(
+    playerId: string,
+    enabled: boolean,
+    cameraNodeId?: string
+  ): { success: boolean; reason?: string } {
+    const role = this.players.get(playerId);
+    if (!role) {
+      return { success: false, reason: 'Invalid player' };
+    }
+
+    if (!enabled) {
+      this.stopViewing(playerId);
+      return { success: true };
+    }
+
+    // Plain surveillance mode is a client-side zoom - nothing to track
+    if (!cameraNodeId) {
+      return role === 'dog' ? { success: true } : { success: false, reason: 'Only Dog can use surveillance' };
+    }
+
+    const camera = this.interactables.get(cameraNodeId);
+    if (!camera || camera.type !== 'camera_node') {
+      return { success: false, reason: 'Camera not found' };
+    }
+
+    const denial = getInteractionDenial(role, camera.type, camera.state, 'view');
+    if (denial) {
+      return { success: false, reason: denial };
+    }
+
+    const entity = this.entities.get(`${role}_entity`);
+    const failure = entity ? getReachFailure(entity, camera) : 'out_of_range';
+    if (failure) {
+      return { success: false, reason: getReachFailureReason(failure) };
+    }
+
+    this.startViewing(playerId, camera);
+    return { success: true };
+  }
+
+  private startViewing(playerId: string, camera: InteractableState): void {
+    this.stopViewing(playerId);
+
+    const state = camera.state as { active: boolean; viewingPlayerId?: string; rotateDirection?: number };
+    state.active = true;
+    state.viewingPlayerId = playerId;
+    state.rotateDirection = 0;
+    this.cameraViews.set(playerId, camera.id);
+  }
+
+  private stopViewing(playerId: string): void {
+    const cameraId = this.cameraViews.get(playerId);
+    if (!cameraId) return;
+    this.cameraViews.delete(playerId);
+
+    const camera = this.interactables.get(cameraId);
+    if (!camera) return;
+
+    const state = camera.state as { active: boolean; viewingPlayerId?: string; rotateDirection?: number };
+    state.active = false;
+    delete state.viewingPlayerId;
+    state.rotateDirection = 0;
+  }
+
+  private isValidCratePosition(x: number, y: number, crateId: string): boolean {
     // Check level bounds
     if (this.levelData) {
       if (x < 1 || x >= this.levelData.width - 1 || y < 1 || y >= this.levelData.height - 1) {
@@ -901,12 +1641,18 @@ export class Room {
       }
     }
 
-    // Check collision with other crates
-    for (const [, other] of this.interactables) {
-      if (other.type !== 'crate') continue;
-      const dx = Math.abs(other.position.x - x);
-      const dy = Math.abs(other.position.y - y);
-      if (dx < 0.9 && dy < 0.9) {
+    // Check collision with other crates, closed doors and other solid objects
+    for (const obstacle of getInteractableObstacles(this.interactables.values())) {
+      if (obstacle.id === crateId || obstacle.shape !== 'box') continue;
+      if (obstacle.minX < x + 0.45 && obstacle.maxX > x - 0.45 && obstacle.minY < y + 0.45 && obstacle.maxY > y - 0.45) {
+        return false;
+      }
+    }
+
+    // Don't slide into a character standing in the way
+    for (const entity of this.entities.values()) {
+      const reach = 0.5 + getCollisionRadius(entity.type);
+      if (Math.abs(entity.position.x - x) < reach && Math.abs(entity.position.y - y) < reach) {
         return false;
       }
     }
@@ -914,26 +1660,62 @@ export class Room {
     return true;
   }
 
-  private triggerLinkedObjects(source: InteractableState): void {
-    if (!source.linkedIds) return;
+  getInteractableStates(): InteractableState[] {
+    return Array.from(this.interactables.values());
+  }
+
+  // ============================================
+  // State Sync
+  // ============================================
+
+  private recordSnapshot(): void {
+    this.stateHistory.set(this.tick_, structuredClone(this.getGameState()));
+    this.stateHistory.delete(this.tick_ - PROTOCOL.STATE_HISTORY_TICKS);
+  }
 
-    for (const linkedId of source.linkedIds) {
-      const linked = this.interactables.get(linkedId);
-      if (!linked) continue;
+  /**
+   * Record the newest state tick a client has applied
+   */
+  acknowledgeState(playerId: string, tick: number): void {
+    if (!this.players.has(playerId) || tick > this.tick_) return;
 
-      // Toggle linked objects
-      if (linked.type === 'door') {
-        const state = linked.state as { open: boolean };
-        state.open = !state.open;
-      } else if (linked.type === 'platform') {
-        const state = linked.state as { moving: boolean };
-        state.moving = !state.moving;
-      }
+    const previous = this.stateAcks.get(playerId);
+    if (previous === undefined || tick > previous) {
+      this.stateAcks.set(playerId, tick);
     }
   }
 
-  getInteractableStates(): InteractableState[] {
-    return Array.from(this.interactables.values());
+  /**
+   * Make the next state update for this player a full keyframe
+   */
+  requestKeyframe(playerId: string): void {
+    this.stateAcks.delete(playerId);
+    this.keyframeTicks.delete(playerId);
+  }
+
+  /**
+   * Build the update for one player: a delta against the newest baseline it
+   * is known to hold, or a keyframe when there is none or one is due
+   */
+  getStateUpdate(playerId: string): StateUpdate {
+    const current = this.stateHistory.get(this.tick_) ?? structuredClone(this.getGameState());
+    const lastKeyframe = this.keyframeTicks.get(playerId);
+    const ack = this.stateAcks.get(playerId);
+
+    // Messages arrive in order, so a keyframe is a valid baseline as soon as it is sent
+    const baseTick = Math.max(ack ?? -1, lastKeyframe ?? -1);
+    const base = this.stateHistory.get(baseTick);
+
+    if (
+      !base ||
+      lastKeyframe === undefined ||
+      this.tick_ - lastKeyframe >= PROTOCOL.KEYFRAME_INTERVAL
+    ) {
+      this.keyframeTicks.set(playerId, this.tick_);
+      return { kind: 'keyframe', gameState: current };
+    }
+
+    return { kind: 'delta', delta: diffGameState(base, current) };
   }
 
   // ============================================
@@ -945,8 +1727,8 @@ export class Room {
     if (!role) return null;
 
     // Rate limit
-    const lastPing = this.lastPingTime.get(playerId) || 0;
-    if (Date.now() - lastPing < PING.COOLDOWN) {
+    const lastPing = this.lastPingTick.get(playerId);
+    if (lastPing !== undefined && this.tick_ - lastPing < msToTicks(PING.COOLDOWN)) {
       return null;
     }
 
@@ -968,20 +1750,24 @@ export class Room {
       }
       if (oldest) {
         this.pings.delete(oldest.id);
+        this.pingExpiryTicks.delete(oldest.id);
       }
     }
 
+    // Wall-clock times are for the client's fade-out; expiry itself is tick-counted
+    const now = this.clock.now();
     const ping: PingMarker = {
-      id: `ping_${Date.now()}_${Math.random().toString(36).slice(2)}`,
+      id: `ping_${this.tick_}_${this.random.nextInt(36 ** 6).toString(36)}`,
       position,
       type: pingType,
       createdBy: role,
-      createdAt: Date.now(),
-      expiresAt: Date.now() + PING.LIFETIME,
+      createdAt: now,
+      expiresAt: now + PING.LIFETIME,
     };
 
     this.pings.set(ping.id, ping);
-    this.lastPingTime.set(playerId, Date.now());
+    this.pingExpiryTicks.set(ping.id, this.tick_ + msToTicks(PING.LIFETIME));
+    this.lastPingTick.set(playerId, this.tick_);
 
     return ping;
   }
@@ -994,14 +1780,15 @@ export class Room {
     if (ping.createdBy !== role) return false;
 
     this.pings.delete(pingId);
+    this.pingExpiryTicks.delete(pingId);
     return true;
   }
 
   private expirePings(): void {
-    const now = Date.now();
-    for (const [id, ping] of this.pings) {
-      if (now >= ping.expiresAt) {
+    for (const [id, expiryTick] of this.pingExpiryTicks) {
+      if (this.tick_ >= expiryTick) {
         this.pings.delete(id);
+        this.pingExpiryTicks.delete(id);
       }
     }
   }
@@ -1014,6 +1801,9 @@ export class Room {
   // Puzzle System
   // ============================================
 
+  /**
+   * Puzzles whose progress changed since the last call
+   */
   checkPuzzles(): { puzzleId: string; objectives: { id: string; completed: boolean }[]; completed: boolean }[] {
     const results: { puzzleId: string; objectives: { id: string; completed: boolean }[]; completed: boolean }[] = [];
 
@@ -1022,6 +1812,11 @@ export class Room {
       for (const [objId, completed] of state.objectives) {
         objectives.push({ id: objId, completed });
       }
+
+      const signature = JSON.stringify({ objectives, completed: state.completed });
+      if (this.reportedPuzzles.get(puzzleId) === signature) continue;
+      this.reportedPuzzles.set(puzzleId, signature);
+
       results.push({ puzzleId, objectives, completed: state.completed });
     }
 
@@ -1047,6 +1842,7 @@ export class Room {
       states.push({
         id: puzzleConfig.id,
         name: puzzleConfig.name,
+        available: this.availablePuzzles.has(puzzleConfig.id),
         completed: puzzleState.completed,
         objectives,
       });
@@ -1055,9 +1851,48 @@ export class Room {
     return states;
   }
 
+  /**
+   * Check the level's completion rule - levels without one never complete
+   */
   isLevelComplete(): boolean {
-    // TODO: Check if all non-optional puzzles are complete
-    return false;
+    if (this.status !== 'playing' || !this.levelData?.completion) return false;
+
+    const completion = this.levelData.completion;
+    const required = completion.requiredPuzzles ?? this.levelData.puzzles.map((p) => p.id);
+    for (const puzzleId of required) {
+      if (!this.puzzleStates.get(puzzleId)?.completed) return false;
+    }
+
+    if (completion.exitZone) {
+      for (const role of ['dog', 'panda'] as Role[]) {
+        const entity = this.entities.get(`${role}_entity`);
+        if (!entity || !isInZone(entity.position, completion.exitZone)) return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Stop the simulation - level_complete is sent once, on this transition
+   */
+  completeLevel(): void {
+    this.status = 'completed';
+    console.log(`Room ${this.roomCode} completed ${this.levelId} in ${this.getElapsedTime()}ms`);
+  }
+
+  getNextLevelId(): string {
+    return getNextLevelId(this.levelId);
+  }
+
+  /**
+   * Load the next level in the sequence with the same players
+   */
+  continueToNextLevel(): GameState | null {
+    if (this.status !== 'completed') return null;
+
+    this.levelId = this.getNextLevelId();
+    return this.startGame();
   }
 
   getCompletedPuzzleCount(): number {
@@ -1071,6 +1906,134 @@ export class Room {
   getTotalPuzzleCount(): number {
     return this.puzzleStates.size;
   }
+
+  // ============================================
+  // Checkpoints & Puzzle Reset
+  // ============================================
+
+  private updateCheckpoints(): void {
+    if (!this.levelData) return;
+
+    // Checkpoints only move forward through the level's puzzles, so a
+    // character wandering back doesn't drag the other one's respawn along
+    const puzzles = this.levelData.puzzles;
+    const current = puzzles.findIndex((p) => p.id === this.currentPuzzleId);
+
+    for (const puzzle of puzzles.slice(current + 1)) {
+      if (!puzzle.checkpoint || !this.availablePuzzles.has(puzzle.id)) continue;
+
+      for (const entity of this.entities.values()) {
+        if (!isInZone(entity.position, puzzle.checkpoint.zone)) continue;
+
+        // Both characters respawn at the checkpoint, wherever the other one is
+        this.currentPuzzleId = puzzle.id;
+        this.checkpoints.set('dog', { ...puzzle.checkpoint.spawns.dog });
+        this.checkpoints.set('panda', { ...puzzle.checkpoint.spawns.panda });
+        this.resetVotes.clear();
+        return;
+      }
+    }
+  }
+
+  /**
+   * Puzzle a reset vote applies to - the last checkpoint's while it's unsolved,
+   * or else the first unsolved one
+   */
+  getResetPuzzleId(): string | null {
+    if (this.currentPuzzleId && !this.puzzleStates.get(this.currentPuzzleId)?.completed) {
+      return this.currentPuzzleId;
+    }
+    const unsolved = this.levelData?.puzzles.find((p) => this.availablePuzzles.has(p.id) && !this.puzzleStates.get(p.id)?.completed);
+    return unsolved?.id ?? null;
+  }
+
+  /**
+   * Record a player's reset vote. The puzzle resets once every player has voted.
+   */
+  voteReset(playerId: string, vote: boolean): { puzzleId: string | null; votes: Role[]; reset: boolean } {
+    if (vote) {
+      this.resetVotes.add(playerId);
+    } else {
+      this.resetVotes.delete(playerId);
+    }
+
+    const puzzleId = this.getResetPuzzleId();
+    const votes = this.getResetVotes();
+    if (!puzzleId || this.resetVotes.size < 2) {
+      return { puzzleId, votes, reset: false };
+    }
+
+    const reset = this.resetPuzzle(puzzleId);
+    return { puzzleId, votes: this.getResetVotes(), reset };
+  }
+
+  getResetVotes(): Role[] {
+    const votes: Role[] = [];
+    for (const playerId of this.resetVotes) {
+      const role = this.players.get(playerId);
+      if (role) votes.push(role);
+    }
+    return votes;
+  }
+
+  /**
+   * Put a puzzle back to how the level starts it - its interactables return to
+   * their config, its progress clears, and both characters go to its checkpoint.
+   * Solved puzzles stay solved, since their rewards can't be taken back.
+   */
+  private resetPuzzle(puzzleId: string): boolean {
+    const puzzle = this.levelData?.puzzles.find((p) => p.id === puzzleId);
+    if (!this.levelData || !puzzle) return false;
+    if (this.puzzleStates.get(puzzleId)?.completed) return false;
+
+    for (const id of puzzle.interactableIds ?? []) {
+      const config = this.levelData.interactables.find((c) => c.id === id);
+      const interactable = this.interactables.get(id);
+      if (!config || !interactable) continue;
+
+      interactable.position = { ...config.position };
+      interactable.state = structuredClone(config.initialState);
+      this.crateHoldTicks.delete(id);
+      this.platformPauseTicks.delete(id);
+      this.plateChangeTicks.delete(id);
+    }
+
+    this.conditions.reset(puzzleId);
+
+    const state = this.puzzleStates.get(puzzleId);
+    if (state) {
+      for (const objectiveId of state.objectives.keys()) {
+        state.objectives.set(objectiveId, false);
+      }
+    }
+
+    if (puzzle.checkpoint) {
+      for (const entity of this.entities.values()) {
+        const spawn = puzzle.checkpoint.spawns[entity.type];
+        entity.position = { ...spawn };
+        entity.velocity = { x: 0, y: 0 };
+        entity.verticalVelocity = 0;
+        entity.grounded = true;
+        entity.state = 'idle';
+        this.knockedOut.delete(entity.id);
+        this.checkpoints.set(entity.type, { ...spawn });
+      }
+      this.currentPuzzleId = puzzleId;
+    }
+
+    this.resetVotes.clear();
+    this.puzzleResets.push(puzzleId);
+    return true;
+  }
+
+  /**
+   * Puzzles reset since the last call, for the server to broadcast
+   */
+  takePuzzleResets(): string[] {
+    const resets = this.puzzleResets;
+    this.puzzleResets = [];
+    return resets;
+  }
 }
 
 // ============================================
@@ -1079,16 +2042,27 @@ export class Room {
 
 export class RoomManager {
   private rooms: Map<string, Room> = new Map();
+  private clock: Clock;
+  private random: SeededRandom;
+
+  constructor(options: RoomOptions = {}) {
+    this.clock = options.clock ?? systemClock;
+    this.random = new SeededRandom(options.seed ?? this.clock.now());
+  }
 
   createRoom(
     creatorId: string,
     levelId: string
   ): { success: boolean; roomCode?: string; qrCodeUrl?: string; error?: string } {
+    if (!getLevelList().includes(levelId)) {
+      return { success: false, error: `Unknown level: ${levelId}` };
+    }
+
     // Generate unique room code
     let roomCode: string;
     let attempts = 0;
     do {
-      roomCode = generateRoomCode();
+      roomCode = generateRoomCode(this.random);
       attempts++;
     } while (this.rooms.has(roomCode) && attempts < 100);
 
@@ -1096,7 +2070,11 @@ export class RoomManager {
       return { success: false, error: 'Could not generate unique room code' };
     }
 
-    const room = new Room(roomCode, levelId, creatorId);
+    // Each room gets its own seed so one room's activity can't change another's
+    const room = new Room(roomCode, levelId, creatorId, {
+      clock: this.clock,
+      seed: this.random.nextInt(2 ** 32),
+    });
     this.rooms.set(roomCode, room);
 
     // Generate QR code URL
@@ -1161,7 +2139,7 @@ export class RoomManager {
   }
 
   cleanupStaleRooms(): void {
-    const now = Date.now();
+    const now = this.clock.now();
     const timeout = PROTOCOL.ROOM_TIMEOUT;
 
     for (const [code, room] of this.rooms) {
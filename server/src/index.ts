@@ -7,9 +7,18 @@ import { WebSocketServer, WebSocket } from 'ws';
 import { createServer } from 'http';
 import { readFileSync, existsSync } from 'fs';
 import { join, extname } from 'path';
-import { RoomManager } from './Room';
+import { RoomManager, type Room } from './Room';
 import { PROTOCOL } from '../../shared/protocol';
-import type { ClientMessage, ServerMessage } from '../../shared/protocol';
+import type { ClientMessage, ServerMessage, HelloMessage } from '../../shared/protocol';
+import {
+  jsonCodec,
+  getCodec,
+  negotiateCodec,
+  isCompatibleVersion,
+  type MessageCodec,
+  type WireData,
+} from '../../shared/codec';
+import { validateClientMessage, isWithinSizeLimit, VALIDATION } from '../../shared/validation';
 
 const PORT = parseInt(process.env.PORT || '3001', 10);
 const HOST = process.env.HOST || '0.0.0.0';
@@ -92,6 +101,9 @@ interface ClientData {
   playerId: string;
   roomCode: string | null;
   lastHeartbeat: number;
+  codec: MessageCodec;     // JSON until the hello handshake picks one
+  handshakeDone: boolean;
+  rejectedMessages: number;
 }
 
 const clients = new Map<WebSocket, ClientData>();
@@ -105,20 +117,125 @@ function generatePlayerId(): string {
 // Send message to client
 function send(ws: WebSocket, message: ServerMessage): void {
   if (ws.readyState === WebSocket.OPEN) {
-    ws.send(JSON.stringify(message));
+    const codec = clients.get(ws)?.codec ?? jsonCodec;
+    ws.send(codec.encode(message));
   }
 }
 
+// Send a fatal error and drop the connection
+function rejectConnection(ws: WebSocket, message: ServerMessage): void {
+  send(ws, message);
+  ws.close();
+}
+
+// Agree on protocol version and codec before anything else is exchanged
+function handleHello(ws: WebSocket, clientData: ClientData, message: HelloMessage): void {
+  if (!isCompatibleVersion(message.version)) {
+    console.log(`Rejected ${clientData.playerId}: protocol ${message.version}, server ${PROTOCOL.VERSION}`);
+    rejectConnection(ws, {
+      type: 'server_error',
+      timestamp: Date.now(),
+      code: 'incompatible_version',
+      error: `This game client (protocol ${message.version}) is out of date with the server (protocol ${PROTOCOL.VERSION}). Please reload the page.`,
+      fatal: true,
+    });
+    return;
+  }
+
+  const codecName = negotiateCodec(message.codecs);
+  if (!codecName) {
+    rejectConnection(ws, {
+      type: 'server_error',
+      timestamp: Date.now(),
+      code: 'unsupported_codec',
+      error: 'No supported message encoding. Please reload the page.',
+      fatal: true,
+    });
+    return;
+  }
+
+  send(ws, {
+    type: 'welcome',
+    timestamp: Date.now(),
+    version: PROTOCOL.VERSION,
+    codec: codecName,
+  });
+  clientData.codec = getCodec(codecName);
+  clientData.handshakeDone = true;
+}
+
+// Answer a message that failed validation, and log it against the connection
+function rejectMessage(
+  ws: WebSocket,
+  clientData: ClientData,
+  code: 'invalid_message' | 'message_too_large',
+  rejectedType: string | null,
+  reason: string
+): void {
+  clientData.rejectedMessages++;
+  console.warn(
+    `Rejected ${rejectedType ?? 'message'} from ${clientData.playerId}: ${reason} ` +
+    `(${clientData.rejectedMessages} rejected on this connection)`
+  );
+
+  const error = {
+    type: 'server_error' as const,
+    timestamp: Date.now(),
+    code,
+    error: `Rejected ${rejectedType ?? 'message'}: ${reason}`,
+    rejectedType: rejectedType ?? undefined,
+  };
+
+  // Before the handshake the client is still waiting on a welcome - turn it
+  // away instead of leaving it to wait forever
+  if (!clientData.handshakeDone) {
+    rejectConnection(ws, { ...error, fatal: true });
+    return;
+  }
+  send(ws, { ...error, fatal: false });
+}
+
 // Handle incoming messages
-function handleMessage(ws: WebSocket, data: string): void {
+function handleMessage(ws: WebSocket, data: WireData): void {
   const clientData = clients.get(ws);
   if (!clientData) return;
 
-  let message: ClientMessage;
+  const size = typeof data === 'string' ? Buffer.byteLength(data) : data.length;
+  if (!isWithinSizeLimit(size)) {
+    rejectMessage(ws, clientData, 'message_too_large', null,
+      `${size} bytes exceeds the ${VALIDATION.MAX_MESSAGE_BYTES} byte limit`);
+    return;
+  }
+
+  let decoded: unknown;
   try {
-    message = JSON.parse(data) as ClientMessage;
+    decoded = clientData.codec.decode(data);
   } catch {
-    console.error('Invalid JSON from client');
+    rejectMessage(ws, clientData, 'invalid_message', null, 'could not be decoded');
+    return;
+  }
+
+  const validation = validateClientMessage(decoded);
+  if (!validation.ok) {
+    rejectMessage(ws, clientData, 'invalid_message', validation.type, validation.reason);
+    return;
+  }
+  const message: ClientMessage = validation.message;
+
+  if (message.type === 'hello') {
+    handleHello(ws, clientData, message);
+    return;
+  }
+
+  // Clients from before the handshake existed never send hello
+  if (!clientData.handshakeDone) {
+    rejectConnection(ws, {
+      type: 'server_error',
+      timestamp: Date.now(),
+      code: 'handshake_required',
+      error: 'This game client is out of date with the server. Please reload the page.',
+      fatal: true,
+    });
     return;
   }
 
@@ -127,12 +244,15 @@ function handleMessage(ws: WebSocket, data: string): void {
       const result = roomManager.createRoom(clientData.playerId, message.levelId);
       if (result.success) {
         clientData.roomCode = result.roomCode!;
+        const room = roomManager.getRoom(result.roomCode!);
         send(ws, {
           type: 'room_created',
           timestamp: Date.now(),
           roomCode: result.roomCode!,
           qrCodeUrl: result.qrCodeUrl!,
           role: 'dog',  // Creator is always Dog (desktop)
+          levelId: room!.getLevelId(),
+          sessionToken: room!.getSessionToken(clientData.playerId)!,
         });
       } else {
         send(ws, {
@@ -161,8 +281,10 @@ function handleMessage(ws: WebSocket, data: string): void {
           timestamp: Date.now(),
           roomCode: message.roomCode,
           role: result.role!,
+          levelId: room!.getLevelId(),
           roomState: room!.getRoomState(),
           gameState: room!.getGameState(),
+          sessionToken: room!.getSessionToken(clientData.playerId)!,
         });
 
         // Notify other player
@@ -179,14 +301,9 @@ function handleMessage(ws: WebSocket, data: string): void {
           }
         }
 
-        // Start game if both players ready
+        // Both seats filled - the ready check begins
         if (room!.isFull()) {
-          const gameState = room!.startGame();
-          broadcastToRoom(message.roomCode, {
-            type: 'game_start',
-            timestamp: Date.now(),
-            gameState,
-          });
+          broadcastReadyState(room!);
         }
       } else {
         send(ws, {
@@ -199,6 +316,63 @@ function handleMessage(ws: WebSocket, data: string): void {
       break;
     }
 
+    case 'resume_session': {
+      const room = roomManager.getRoom(message.roomCode);
+
+      // The seat still looks connected when the old socket went half-open
+      // before the heartbeat noticed - the token holder takes it over
+      const heldBy = room?.getSessionPlayer(message.sessionToken);
+      if (room && heldBy && heldBy !== clientData.playerId && room.isPlayerConnected(heldBy)) {
+        dropStaleClient(room, heldBy);
+      }
+
+      const playerId = room?.reconnectPlayer(message.sessionToken);
+      if (!room || !playerId) {
+        send(ws, {
+          type: 'room_error',
+          timestamp: Date.now(),
+          error: 'session_expired',
+          message: 'Your session has expired',
+        });
+        break;
+      }
+
+      // Continue as the original player so the room sees the same seat
+      clientData.playerId = playerId;
+      clientData.roomCode = room.getRoomCode();
+      const role = room.getPlayerRole(playerId)!;
+      console.log(`Client resumed session: ${playerId} (${role})`);
+
+      send(ws, {
+        type: 'session_resumed',
+        timestamp: Date.now(),
+        roomCode: room.getRoomCode(),
+        role,
+        roomState: room.getRoomState(),
+      });
+      sendStateUpdate(ws, room, playerId);
+
+      broadcastToRoom(room.getRoomCode(), {
+        type: 'player_reconnected',
+        timestamp: Date.now(),
+        role,
+      });
+
+      if (room.isInLobby()) {
+        broadcastReadyState(room);
+      }
+
+      if (room.resumeIfReconnected()) {
+        broadcastToRoom(room.getRoomCode(), {
+          type: 'game_paused',
+          timestamp: Date.now(),
+          paused: false,
+          pausedBy: role,
+        });
+      }
+      break;
+    }
+
     case 'leave_room': {
       if (clientData.roomCode) {
         handlePlayerLeave(ws, clientData);
@@ -211,7 +385,8 @@ function handleMessage(ws: WebSocket, data: string): void {
       const room = roomManager.getRoom(clientData.roomCode);
       if (!room) return;
 
-      room.handleInput(clientData.playerId, message.tick, message.input, message.position);
+      room.acknowledgeState(clientData.playerId, message.tick);
+      room.handleInput(clientData.playerId, message.sequence, message.input);
       break;
     }
 
@@ -237,17 +412,28 @@ function handleMessage(ws: WebSocket, data: string): void {
         reason: result.reason,
       });
 
-      // Broadcast state change if successful
-      if (result.success && result.newState) {
-        broadcastToRoom(clientData.roomCode, {
-          type: 'state_update',
+      // The change reaches both players with the next tick's state update
+      break;
+    }
+
+    case 'surveillance': {
+      if (!clientData.roomCode) return;
+      const room = roomManager.getRoom(clientData.roomCode);
+      if (!room) return;
+
+      const result = room.handleSurveillance(clientData.playerId, message.enabled, message.cameraNodeId);
+      if (!result.success && message.cameraNodeId) {
+        send(ws, {
+          type: 'interaction_result',
           timestamp: Date.now(),
-          tick: room.getTick(),
-          entities: room.getEntityStates(),
-          interactables: room.getInteractableStates(),
-          pings: room.getPings(),
+          targetId: message.cameraNodeId,
+          action: 'view',
+          success: false,
+          reason: result.reason,
         });
       }
+
+      // Camera state reaches both players with the next tick's state update
       break;
     }
 
@@ -282,14 +468,52 @@ function handleMessage(ws: WebSocket, data: string): void {
       break;
     }
 
+    case 'ready': {
+      if (!clientData.roomCode) return;
+      const room = roomManager.getRoom(clientData.roomCode);
+      if (!room) return;
+
+      if (room.setPlayerReady(clientData.playerId)) {
+        broadcastReadyState(room);
+      }
+      break;
+    }
+
+    case 'cancel_countdown': {
+      if (!clientData.roomCode) return;
+      const room = roomManager.getRoom(clientData.roomCode);
+      if (!room) return;
+
+      if (room.cancelCountdown(clientData.playerId)) {
+        broadcastReadyState(room);
+      }
+      break;
+    }
+
+    case 'continue_level': {
+      if (!clientData.roomCode) return;
+      const room = roomManager.getRoom(clientData.roomCode);
+      if (!room) return;
+
+      const gameState = room.continueToNextLevel();
+      if (gameState) {
+        broadcastToRoom(clientData.roomCode, {
+          type: 'game_start',
+          timestamp: Date.now(),
+          levelId: room.getLevelId(),
+          gameState,
+        });
+      }
+      break;
+    }
+
     case 'pause': {
       if (!clientData.roomCode) return;
       const room = roomManager.getRoom(clientData.roomCode);
       if (!room) return;
 
       const role = room.getPlayerRole(clientData.playerId);
-      if (role) {
-        room.setPaused(message.paused);
+      if (role && room.setPaused(message.paused)) {
         broadcastToRoom(clientData.roomCode, {
           type: 'game_paused',
           timestamp: Date.now(),
@@ -300,6 +524,37 @@ function handleMessage(ws: WebSocket, data: string): void {
       break;
     }
 
+    case 'reset_vote': {
+      if (!clientData.roomCode) return;
+      const room = roomManager.getRoom(clientData.roomCode);
+      if (!room) return;
+
+      const role = room.getPlayerRole(clientData.playerId);
+      if (!role) return;
+
+      const result = room.voteReset(clientData.playerId, message.vote);
+      broadcastToRoom(clientData.roomCode, {
+        type: 'reset_vote_state',
+        timestamp: Date.now(),
+        puzzleId: result.puzzleId,
+        votes: result.votes,
+      });
+
+      // Voting happens from the pause menu - play on from the fresh puzzle
+      if (result.reset) {
+        broadcastPuzzleResets(room);
+        if (room.setPaused(false)) {
+          broadcastToRoom(clientData.roomCode, {
+            type: 'game_paused',
+            timestamp: Date.now(),
+            paused: false,
+            pausedBy: role,
+          });
+        }
+      }
+      break;
+    }
+
     case 'heartbeat': {
       clientData.lastHeartbeat = Date.now();
       send(ws, {
@@ -322,6 +577,56 @@ function findClientByPlayerId(playerId: string): WebSocket | undefined {
   return undefined;
 }
 
+// Send a player its delta (or keyframe) of the current state
+function sendStateUpdate(ws: WebSocket, room: Room, playerId: string): void {
+  const update = room.getStateUpdate(playerId);
+  if (update.kind === 'keyframe') {
+    send(ws, {
+      type: 'full_state',
+      timestamp: Date.now(),
+      gameState: update.gameState,
+    });
+  } else {
+    send(ws, {
+      type: 'state_update',
+      timestamp: Date.now(),
+      ...update.delta,
+    });
+  }
+}
+
+function sendStateUpdates(room: Room): void {
+  for (const playerId of room.getPlayerIds()) {
+    if (!room.isPlayerConnected(playerId)) continue;
+
+    const ws = findClientByPlayerId(playerId);
+    if (ws) {
+      sendStateUpdate(ws, room, playerId);
+    }
+  }
+}
+
+// Tell both players who has confirmed and how long until the game starts
+function broadcastReadyState(room: Room): void {
+  broadcastToRoom(room.getRoomCode(), {
+    type: 'ready_state',
+    timestamp: Date.now(),
+    ready: room.getReadyStates(),
+    countdown: room.getCountdownRemaining(),
+  });
+}
+
+// Tell both players which puzzles went back to their starting state
+function broadcastPuzzleResets(room: Room): void {
+  for (const puzzleId of room.takePuzzleResets()) {
+    broadcastToRoom(room.getRoomCode(), {
+      type: 'puzzle_reset',
+      timestamp: Date.now(),
+      puzzleId,
+    });
+  }
+}
+
 // Broadcast message to all players in a room
 function broadcastToRoom(roomCode: string, message: ServerMessage): void {
   for (const [ws, data] of clients.entries()) {
@@ -338,27 +643,88 @@ function handlePlayerLeave(ws: WebSocket, clientData: ClientData): void {
   const room = roomManager.getRoom(clientData.roomCode);
   if (!room) return;
 
-  const role = room.getPlayerRole(clientData.playerId);
-  room.removePlayer(clientData.playerId);
+  releaseSeat(room, clientData.playerId);
+  clientData.roomCode = null;
+}
+
+// Free a seat for good - on purpose or after the reconnect window - and tell whoever is left
+function releaseSeat(room: Room, playerId: string): void {
+  const roomCode = room.getRoomCode();
+  const role = room.getPlayerRole(playerId);
+  const paused = room.removePlayer(playerId);
 
-  // Notify other player
   if (role) {
-    broadcastToRoom(clientData.roomCode, {
+    broadcastToRoom(roomCode, {
       type: 'player_left',
       timestamp: Date.now(),
       role,
-      reconnectWindow: PROTOCOL.RECONNECT_WINDOW / 1000,
+      reconnectWindow: 0,
     });
   }
 
   // Clean up empty rooms
   if (room.isEmpty()) {
-    roomManager.removeRoom(clientData.roomCode);
+    roomManager.removeRoom(roomCode);
+  } else if (paused && role) {
+    broadcastToRoom(roomCode, {
+      type: 'game_paused',
+      timestamp: Date.now(),
+      paused: true,
+      pausedBy: role,
+    });
+  } else if (room.isInLobby()) {
+    broadcastReadyState(room);
+  }
+}
+
+// Handle a dropped connection - the seat is held for the reconnect window
+function handlePlayerDisconnect(clientData: ClientData): void {
+  if (!clientData.roomCode) return;
+
+  const room = roomManager.getRoom(clientData.roomCode);
+  if (!room) return;
+
+  const role = room.getPlayerRole(clientData.playerId);
+  if (!role) return;
+
+  const paused = room.disconnectPlayer(clientData.playerId);
+
+  broadcastToRoom(clientData.roomCode, {
+    type: 'player_left',
+    timestamp: Date.now(),
+    role,
+    reconnectWindow: PROTOCOL.RECONNECT_WINDOW / 1000,
+  });
+
+  if (paused) {
+    broadcastToRoom(clientData.roomCode, {
+      type: 'game_paused',
+      timestamp: Date.now(),
+      paused: true,
+      pausedBy: role,
+    });
+  } else if (room.isInLobby()) {
+    broadcastReadyState(room);
   }
 
   clientData.roomCode = null;
 }
 
+// Disconnect whichever socket still holds a seat, as if its connection had dropped
+function dropStaleClient(room: Room, playerId: string): void {
+  const staleWs = findClientByPlayerId(playerId);
+  const staleData = staleWs && clients.get(staleWs);
+  if (!staleWs || !staleData) {
+    room.disconnectPlayer(playerId);
+    return;
+  }
+
+  console.log(`Replacing stale connection: ${playerId}`);
+  handlePlayerDisconnect(staleData);
+  clients.delete(staleWs);
+  staleWs.terminate();
+}
+
 // WebSocket connection handler
 wss.on('connection', (ws: WebSocket) => {
   const playerId = generatePlayerId();
@@ -366,18 +732,21 @@ wss.on('connection', (ws: WebSocket) => {
     playerId,
     roomCode: null,
     lastHeartbeat: Date.now(),
+    codec: jsonCodec,
+    handshakeDone: false,
+    rejectedMessages: 0,
   });
 
   console.log(`Client connected: ${playerId}`);
 
-  ws.on('message', (data: Buffer) => {
-    handleMessage(ws, data.toString());
+  ws.on('message', (data: Buffer, isBinary: boolean) => {
+    handleMessage(ws, isBinary ? data : data.toString());
   });
 
   ws.on('close', () => {
     const clientData = clients.get(ws);
     if (clientData) {
-      handlePlayerLeave(ws, clientData);
+      handlePlayerDisconnect(clientData);
       console.log(`Client disconnected: ${clientData.playerId}`);
     }
     clients.delete(ws);
@@ -392,19 +761,56 @@ wss.on('connection', (ws: WebSocket) => {
 const TICK_INTERVAL = 1000 / PROTOCOL.SERVER_TICK_RATE;
 setInterval(() => {
   for (const [roomCode, room] of roomManager.getRooms()) {
-    if (room.isPlaying()) {
-      room.tick();
+    room.tick();
 
-      // Broadcast state updates
+    // Ready-check countdown ran out
+    if (room.isCountdownFinished()) {
+      const gameState = room.startGame();
       broadcastToRoom(roomCode, {
-        type: 'state_update',
+        type: 'game_start',
         timestamp: Date.now(),
-        tick: room.getTick(),
-        entities: room.getEntityStates(),
-        interactables: room.getInteractableStates(),
-        pings: room.getPings(),
-        puzzleStates: room.getPuzzleStates(),
+        levelId: room.getLevelId(),
+        gameState,
       });
+      continue;
+    }
+
+    if (room.isPlaying()) {
+      // Send state updates
+      sendStateUpdates(room);
+
+      // Reset buttons
+      broadcastPuzzleResets(room);
+
+      // Knockouts and respawns
+      for (const event of room.takeCharacterEvents()) {
+        if (event.kind === 'knocked_out') {
+          broadcastToRoom(roomCode, {
+            type: 'character_knocked_out',
+            timestamp: Date.now(),
+            role: event.role,
+            hazardId: event.hazardId,
+            respawnTick: event.respawnTick,
+          });
+        } else {
+          broadcastToRoom(roomCode, {
+            type: 'character_respawned',
+            timestamp: Date.now(),
+            role: event.role,
+            position: event.position,
+          });
+        }
+      }
+
+      // Doors, plates, crates and the like, for client audio and effects
+      const gameEvents = room.takeGameEvents();
+      if (gameEvents.length > 0) {
+        broadcastToRoom(roomCode, {
+          type: 'game_events',
+          timestamp: Date.now(),
+          events: gameEvents,
+        });
+      }
 
       // Check for puzzle completion
       const puzzleUpdates = room.checkPuzzles();
@@ -420,12 +826,14 @@ setInterval(() => {
 
       // Check for level completion
       if (room.isLevelComplete()) {
+        room.completeLevel();
         broadcastToRoom(roomCode, {
           type: 'level_complete',
           timestamp: Date.now(),
           puzzlesCompleted: room.getCompletedPuzzleCount(),
           totalPuzzles: room.getTotalPuzzleCount(),
           timeElapsed: room.getElapsedTime(),
+          nextLevelId: room.getNextLevelId(),
         });
       }
     }
@@ -440,11 +848,21 @@ setInterval(() => {
   for (const [ws, data] of clients.entries()) {
     if (now - data.lastHeartbeat > timeout) {
       console.log(`Client timed out: ${data.playerId}`);
-      ws.close();
+      ws.terminate();
     }
   }
 }, PROTOCOL.HEARTBEAT_INTERVAL);
 
+// Reconnect windows - free seats nobody came back for
+setInterval(() => {
+  for (const room of roomManager.getRooms().values()) {
+    for (const playerId of room.getExpiredPlayers()) {
+      console.log(`Reconnect window expired: ${playerId}`);
+      releaseSeat(room, playerId);
+    }
+  }
+}, 1000);
+
 // Room cleanup - remove stale rooms
 setInterval(() => {
   roomManager.cleanupStaleRooms();
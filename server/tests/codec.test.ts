@@ -0,0 +1,76 @@
+/**
+ * Panda & Dog - Codec Tests
+ * Handshake negotiation and wire round-trips for both codecs
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { InputMessage, PingMessage, StateUpdateMessage } from '../../shared/protocol';
+import {
+  binaryCodec,
+  getCodec,
+  isCompatibleVersion,
+  jsonCodec,
+  negotiateCodec,
+  quantizeInput,
+} from '../../shared/codec';
+
+// Values are exact in float32 so the binary layout round-trips them unchanged
+const input: InputMessage = {
+  type: 'input',
+  timestamp: 1234,
+  tick: 40,
+  sequence: 7,
+  input: { moveX: 0.3, moveY: -1, run: true, jump: false, interact: true, surveillance: false, operateHold: false },
+  position: { x: 4.5, y: 6.25, z: 0 },
+};
+
+const stateUpdate: StateUpdateMessage = {
+  type: 'state_update',
+  timestamp: 5678,
+  tick: 41,
+  baseTick: 40,
+  entities: [
+    { id: 'dog_entity', position: { x: 4.5, y: 6.25, z: 1 }, velocity: { x: 0.5, y: -0.5 }, facing: 'NE', state: 'walk', lastProcessedInput: 7 },
+  ],
+  interactables: [
+    { id: 'door_1', state: { open: true, progress: 0.75, label: 'exit', removed: null } },
+  ],
+  removedEntities: ['crate_entity'],
+  pings: [{ id: 'ping_1', position: { x: 1, y: 2, z: 0 }, type: 'go', createdBy: 'panda', createdAt: 100, expiresAt: 3100 }],
+};
+
+test('versions are compatible when their majors match', () => {
+  assert.equal(isCompatibleVersion('2.4.1', '2.0.0'), true);
+  assert.equal(isCompatibleVersion('1.9.0', '2.0.0'), false);
+});
+
+test('negotiation picks the first supported codec and skips unknown names', () => {
+  assert.equal(negotiateCodec(['msgpack', 'binary', 'json']), 'binary');
+  assert.equal(negotiateCodec(['json', 'binary']), 'json');
+  assert.equal(negotiateCodec(['toString', 'msgpack']), null);
+  assert.equal(getCodec('binary'), binaryCodec);
+});
+
+for (const codec of [jsonCodec, binaryCodec]) {
+  test(`${codec.name} codec round-trips inputs at quantized precision`, () => {
+    const quantized: InputMessage = { ...input, input: quantizeInput(input.input) };
+    assert.deepEqual(codec.decode(codec.encode(quantized)), quantized);
+  });
+
+  test(`${codec.name} codec round-trips state updates`, () => {
+    assert.deepEqual(codec.decode(codec.encode(stateUpdate)), stateUpdate);
+  });
+}
+
+test('binary codec packs hot messages and leaves the rest as JSON text', () => {
+  const ping: PingMessage = { type: 'ping_marker', timestamp: 1, position: { x: 1, y: 2, z: 0 }, pingType: 'look' };
+  assert.ok(binaryCodec.encode(input) instanceof Uint8Array);
+  assert.equal(binaryCodec.encode(ping), JSON.stringify(ping));
+  assert.deepEqual(binaryCodec.decode(binaryCodec.encode(ping)), ping);
+});
+
+test('quantized inputs survive a second quantization unchanged', () => {
+  const once = quantizeInput(input.input);
+  assert.deepEqual(quantizeInput(once), once);
+});
@@ -0,0 +1,127 @@
+/**
+ * Panda & Dog - Puzzle Condition Tests
+ * State, zone and history-based objective conditions
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type {
+  EntityState,
+  GameEvent,
+  InteractableEventKind,
+  InteractableState,
+  PuzzleCondition,
+  Role,
+} from '../../shared/types';
+import { PuzzleConditions } from '../src/Conditions';
+
+function createConditions() {
+  const interactables = new Map<string, InteractableState>([
+    ['winch', { id: 'winch', type: 'winch', position: { x: 1, y: 1, z: 0 }, state: { extended: 0.5 } }],
+    ['door', { id: 'door', type: 'door', position: { x: 2, y: 1, z: 0 }, state: { open: false } }],
+  ]);
+  const entities = new Map<string, EntityState>([
+    ['dog_entity', { id: 'dog_entity', type: 'dog', position: { x: 3.5, y: 3.5, z: 0 }, velocity: { x: 0, y: 0 }, facing: 'S', state: 'idle' }],
+  ]);
+  const items = new Map<Role, Set<string>>();
+  const conditions = new PuzzleConditions(interactables, entities, items);
+  return { conditions, interactables, entities, items };
+}
+
+function event(kind: InteractableEventKind, tick: number, interactableId = 'button'): GameEvent {
+  return { kind, tick, interactableId, position: { x: 0, y: 0, z: 0 } };
+}
+
+test('state and comparison conditions read interactable state', () => {
+  const { conditions, interactables } = createConditions();
+  const open: PuzzleCondition = { type: 'interactable_state', targetId: 'door', state: { open: true } };
+  const extended: PuzzleCondition = { type: 'compare', targetId: 'winch', key: 'extended', op: '>=', value: 0.5 };
+
+  assert.equal(conditions.evaluate(open, 'p/open', 1, []), false);
+  assert.equal(conditions.evaluate(extended, 'p/extended', 1, []), true);
+  interactables.get('door')!.state.open = true;
+  assert.equal(conditions.evaluate(open, 'p/open', 2, []), true);
+});
+
+test('zone conditions use tile coordinates, inclusive', () => {
+  const { conditions, entities } = createConditions();
+  const inZone: PuzzleCondition = { type: 'role_in_zone', role: 'dog', zone: { min: { x: 2, y: 2, z: 0 }, max: { x: 3, y: 3, z: 0 } } };
+
+  assert.equal(conditions.evaluate(inZone, 'p/zone', 1, []), true);
+  entities.get('dog_entity')!.position.x = 4.1;
+  assert.equal(conditions.evaluate(inZone, 'p/zone', 2, []), false);
+});
+
+test('held needs its condition true for enough ticks in a row', () => {
+  const { conditions, interactables } = createConditions();
+  const held: PuzzleCondition = {
+    type: 'held',
+    condition: { type: 'interactable_state', targetId: 'door', state: { open: true } },
+    ticks: 3,
+  };
+
+  interactables.get('door')!.state.open = true;
+  assert.equal(conditions.evaluate(held, 'p/held', 1, []), false);
+  assert.equal(conditions.evaluate(held, 'p/held', 2, []), false);
+  interactables.get('door')!.state.open = false;
+  assert.equal(conditions.evaluate(held, 'p/held', 3, []), false);
+  interactables.get('door')!.state.open = true;
+  for (const tick of [4, 5]) {
+    assert.equal(conditions.evaluate(held, 'p/held', tick, []), false);
+  }
+  assert.equal(conditions.evaluate(held, 'p/held', 6, []), true);
+});
+
+test('sequences match in order and start over once the window runs out', () => {
+  const { conditions } = createConditions();
+  const sequence: PuzzleCondition = {
+    type: 'sequence',
+    events: [{ kind: 'button_pressed' }, { kind: 'lever_toggled' }],
+    withinTicks: 10,
+  };
+
+  assert.equal(conditions.evaluate(sequence, 'p/seq', 1, [event('lever_toggled', 1)]), false);
+  assert.equal(conditions.evaluate(sequence, 'p/seq', 2, [event('button_pressed', 2)]), false);
+  assert.equal(conditions.evaluate(sequence, 'p/seq', 20, [event('button_pressed', 20)]), false);
+  assert.equal(conditions.evaluate(sequence, 'p/seq', 25, [event('lever_toggled', 25)]), true);
+});
+
+test('count tallies matching events, optionally by target', () => {
+  const { conditions } = createConditions();
+  const count: PuzzleCondition = { type: 'count', event: { kind: 'button_pressed', targetId: 'button' }, count: 2 };
+
+  assert.equal(conditions.evaluate(count, 'p/count', 1, [event('button_pressed', 1), event('button_pressed', 1, 'other')]), false);
+  assert.equal(conditions.evaluate(count, 'p/count', 2, [event('button_pressed', 2)]), true);
+});
+
+test('one condition object at two paths keeps separate history', () => {
+  const { conditions } = createConditions();
+  const count: PuzzleCondition = { type: 'count', event: { kind: 'button_pressed' }, count: 2 };
+  const both: PuzzleCondition = { type: 'and', conditions: [count, count] };
+
+  assert.equal(conditions.evaluate(both, 'p/both', 1, [event('button_pressed', 1)]), false);
+  assert.equal(conditions.evaluate(count, 'p/alone', 1, [event('button_pressed', 1)]), false);
+  assert.equal(conditions.evaluate(both, 'p/both', 2, [event('button_pressed', 2)]), true);
+});
+
+test('resetting a path forgets its history and everything nested under it', () => {
+  const { conditions } = createConditions();
+  const count: PuzzleCondition = { type: 'count', event: { kind: 'button_pressed' }, count: 2 };
+  const nested: PuzzleCondition = { type: 'or', conditions: [count] };
+
+  conditions.evaluate(nested, 'puzzle_a/obj', 1, [event('button_pressed', 1)]);
+  conditions.evaluate(count, 'puzzle_b/obj', 1, [event('button_pressed', 1)]);
+  conditions.reset('puzzle_a');
+  assert.equal(conditions.evaluate(nested, 'puzzle_a/obj', 2, [event('button_pressed', 2)]), false);
+  assert.equal(conditions.evaluate(count, 'puzzle_b/obj', 2, [event('button_pressed', 2)]), true);
+});
+
+test('has_item checks the named role, or either role when omitted', () => {
+  const { conditions, items } = createConditions();
+  const dogHasKey: PuzzleCondition = { type: 'has_item', item: 'key', role: 'dog' };
+  const anyoneHasKey: PuzzleCondition = { type: 'has_item', item: 'key' };
+
+  items.set('panda', new Set(['key']));
+  assert.equal(conditions.evaluate(dogHasKey, 'p/dog', 1, []), false);
+  assert.equal(conditions.evaluate(anyoneHasKey, 'p/anyone', 1, []), true);
+});
@@ -0,0 +1,57 @@
+/**
+ * Panda & Dog - Delta Tests
+ * Diffing a snapshot against its base and patching it back must round-trip
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { GameState } from '../../shared/types';
+import { applyGameStateDelta, diffGameState } from '../../shared/delta';
+
+function createState(): GameState {
+  return {
+    tick: 10,
+    timestamp: 1000,
+    entities: [
+      { id: 'dog_entity', type: 'dog', position: { x: 1, y: 2, z: 0 }, velocity: { x: 0, y: 0 }, facing: 'S', state: 'idle' },
+      { id: 'panda_entity', type: 'panda', position: { x: 3, y: 4, z: 0 }, velocity: { x: 0, y: 0 }, facing: 'N', state: 'idle' },
+    ],
+    interactables: [
+      { id: 'door_1', type: 'door', position: { x: 5, y: 5, z: 0 }, state: { open: false, locked: true }, linkedIds: [] },
+    ],
+    pings: [],
+    puzzleStates: [],
+  };
+}
+
+test('an unchanged state diffs to an empty delta', () => {
+  const base = createState();
+  const delta = diffGameState(base, { ...createState(), tick: 11 });
+  assert.deepEqual(delta, { tick: 11, baseTick: 10, entities: [], interactables: [] });
+});
+
+test('only changed fields and state keys are sent', () => {
+  const base = createState();
+  const next = createState();
+  next.tick = 11;
+  next.entities[0].position = { x: 1.5, y: 2, z: 0 };
+  next.interactables[0].state = { open: true, locked: true };
+
+  const delta = diffGameState(base, next);
+  assert.deepEqual(delta.entities, [{ id: 'dog_entity', position: { x: 1.5, y: 2, z: 0 } }]);
+  assert.deepEqual(delta.interactables, [{ id: 'door_1', state: { open: true } }]);
+});
+
+test('applying a delta rebuilds the next state without touching the base', () => {
+  const base = createState();
+  const next = createState();
+  next.tick = 12;
+  next.timestamp = 1100;
+  next.entities = [{ ...next.entities[0], state: 'walk', grounded: true }];
+  next.interactables[0].state = { open: true };
+  next.pings = [{ id: 'ping_1', position: { x: 1, y: 1, z: 0 }, type: 'go', createdBy: 'dog', createdAt: 1050, expiresAt: 4050 }];
+
+  const rebuilt = applyGameStateDelta(base, diffGameState(base, next), next.timestamp);
+  assert.deepEqual(rebuilt, next);
+  assert.deepEqual(base, createState());
+});
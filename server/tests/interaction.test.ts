@@ -0,0 +1,50 @@
+/**
+ * Panda & Dog - Interaction Reach Tests
+ * The reach test both the server and the client's prompts rely on
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Direction8, InteractableState } from '../../shared/types';
+import { INTERACTION_HEIGHT, INTERACTION_RANGE } from '../../shared/constants';
+import { canReach, getReachDistance, getReachFailure } from '../../shared/interaction';
+
+const lever: InteractableState = {
+  id: 'lever_1',
+  type: 'lever',
+  position: { x: 5, y: 5, z: 0 },
+  state: { position: 'off' },
+};
+
+const gate: InteractableState = {
+  id: 'gate_1',
+  type: 'door',
+  position: { x: 5, y: 5, z: 0 },
+  state: { open: false, size: { x: 4, y: 1 } },
+};
+
+function at(x: number, y: number, facing: Direction8 = 'E', z = 0) {
+  return { position: { x, y, z }, facing };
+}
+
+test('distance is measured to the edge of the footprint', () => {
+  assert.equal(getReachDistance(at(3, 5), lever), 1.5);
+  assert.equal(getReachDistance(at(5, 5), lever), 0);
+  assert.equal(getReachDistance(at(2, 5), gate), 1);
+});
+
+test('characters reach within range and out of it fail', () => {
+  assert.equal(canReach(at(4.5 - INTERACTION_RANGE, 5), lever), true);
+  assert.equal(getReachFailure(at(4.4 - INTERACTION_RANGE, 5), lever), 'out_of_range');
+});
+
+test('height differences beyond reach fail', () => {
+  assert.equal(canReach(at(4, 5, 'E', INTERACTION_HEIGHT), lever), true);
+  assert.equal(getReachFailure(at(4, 5, 'E', INTERACTION_HEIGHT + 0.1), lever), 'out_of_height');
+});
+
+test('characters have to face what they reach for unless standing on it', () => {
+  assert.equal(getReachFailure(at(3.5, 5, 'W'), lever), 'facing_away');
+  assert.equal(canReach(at(3.5, 5, 'NE'), lever), true);
+  assert.equal(canReach(at(4.8, 5, 'W'), lever), true);
+});
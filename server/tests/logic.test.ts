@@ -0,0 +1,138 @@
+/**
+ * Panda & Dog - Logic Graph Tests
+ * Wires, logic nodes and when their signals reach interactables
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { InteractableConfig, InteractableState, LevelData } from '../../shared/types';
+import { SERVER_TICK_MS } from '../../shared/constants';
+import { LogicGraph } from '../src/Logic';
+
+type Wiring = Pick<LevelData, 'logic' | 'wires'>;
+
+const CONFIGS: InteractableConfig[] = [
+  { id: 'plate_a', type: 'pressure_plate', position: { x: 1, y: 1, z: 0 }, initialState: { activated: false } },
+  { id: 'plate_b', type: 'pressure_plate', position: { x: 2, y: 1, z: 0 }, initialState: { activated: false } },
+  { id: 'door', type: 'door', position: { x: 3, y: 1, z: 0 }, initialState: { open: false, locked: false } },
+];
+
+function createGraph(wiring: Wiring, externalInputs = {}) {
+  const interactables = new Map<string, InteractableState>(
+    CONFIGS.map((config) => [config.id, { id: config.id, type: config.type, position: { ...config.position }, state: { ...config.initialState } }])
+  );
+  const graph = new LogicGraph({ interactables: CONFIGS, ...wiring }, interactables, externalInputs);
+  const state = (id: string) => interactables.get(id)!.state;
+  return { graph, state };
+}
+
+test('an and node opens the door only while both plates are held', () => {
+  const { graph, state } = createGraph({
+    logic: [{ id: 'both', type: 'and', inputs: ['plate_a', 'plate_b'] }],
+    wires: [{ from: 'both', to: 'door', input: 'open' }],
+  });
+
+  state('plate_a').activated = true;
+  graph.update();
+  assert.equal(state('door').open, false);
+
+  state('plate_b').activated = true;
+  graph.update();
+  assert.equal(state('door').open, true);
+
+  state('plate_a').activated = false;
+  graph.update();
+  assert.equal(state('door').open, false);
+});
+
+test('wires deliver changes only, leaving players free to operate the target in between', () => {
+  const { graph, state } = createGraph({ wires: [{ from: 'plate_a', to: 'door', input: 'open' }] });
+
+  state('plate_a').activated = true;
+  graph.update();
+  state('door').open = false;
+  graph.update();
+  assert.equal(state('door').open, false);
+});
+
+test('several wires into one input act as or', () => {
+  const { graph, state } = createGraph({
+    wires: [
+      { from: 'plate_a', to: 'door', input: 'open' },
+      { from: 'plate_b', to: 'door', input: 'open' },
+    ],
+  });
+
+  state('plate_b').activated = true;
+  graph.update();
+  assert.equal(state('door').open, true);
+});
+
+test('a latch holds until reset, with reset winning', () => {
+  const { graph, state } = createGraph({
+    logic: [{ id: 'latch', type: 'latch', inputs: ['plate_a', 'plate_b'] }],
+    wires: [{ from: 'latch', to: 'door', input: 'open' }],
+  });
+
+  state('plate_a').activated = true;
+  graph.update();
+  state('plate_a').activated = false;
+  graph.update();
+  assert.equal(state('door').open, true);
+
+  state('plate_a').activated = true;
+  state('plate_b').activated = true;
+  graph.update();
+  assert.equal(state('door').open, false);
+});
+
+test('a counter fires after enough rising edges and resets on its second input', () => {
+  const { graph, state } = createGraph({
+    logic: [{ id: 'count', type: 'counter', inputs: ['plate_a', 'plate_b'], count: 2 }],
+    wires: [{ from: 'count', to: 'door', input: 'open' }],
+  });
+
+  const press = (id: string) => {
+    state(id).activated = true;
+    graph.update();
+    state(id).activated = false;
+    graph.update();
+  };
+
+  press('plate_a');
+  assert.equal(state('door').open, false);
+  press('plate_a');
+  assert.equal(state('door').open, true);
+  press('plate_b');
+  assert.equal(state('door').open, false);
+});
+
+test('a delay passes its input on after the given number of ticks', () => {
+  const { graph, state } = createGraph({
+    logic: [{ id: 'later', type: 'delay', inputs: ['plate_a'], durationMs: SERVER_TICK_MS * 3 }],
+    wires: [{ from: 'later', to: 'door', input: 'open' }],
+  });
+
+  state('plate_a').activated = true;
+  for (let tick = 0; tick < 3; tick++) {
+    graph.update();
+    assert.equal(state('door').open, false);
+  }
+  graph.update();
+  assert.equal(state('door').open, true);
+});
+
+test('wires can drive inputs outside the interactables', () => {
+  const signals: number[] = [];
+  const { graph, state } = createGraph(
+    { wires: [{ from: 'plate_a', to: 'puzzle_a', input: 'reset' }] },
+    { 'puzzle_a.reset': (signal: number) => signals.push(signal) }
+  );
+
+  state('plate_a').activated = true;
+  graph.update();
+  graph.update();
+  state('plate_a').activated = false;
+  graph.update();
+  assert.deepEqual(signals, [1, 0]);
+});
@@ -0,0 +1,107 @@
+/**
+ * Panda & Dog - Movement Tests
+ * Shared character movement, as run by both client prediction and the server
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { EntityState, InputState, Role } from '../../shared/types';
+import { MAX_STEP_HEIGHT } from '../../shared/constants';
+import {
+  applyInput,
+  getFloorHeight,
+  getMoveSpeed,
+  stepEntity,
+  INPUT_STEP,
+  type MovementLevel,
+} from '../../shared/movement';
+
+const IDLE: InputState = {
+  moveX: 0,
+  moveY: 0,
+  run: false,
+  jump: false,
+  interact: false,
+  surveillance: false,
+  operateHold: false,
+};
+
+// 10x10 of ground, with tiles from x = 5 eastwards raised to `elevation`
+function createLevel(elevation: number, extra: Partial<MovementLevel> = {}): MovementLevel {
+  const tiles = Array.from({ length: 10 }, () =>
+    Array.from({ length: 10 }, (_, x) => ({ type: 'ground' as const, walkable: true, elevation: x >= 5 ? elevation : 0 }))
+  );
+  return { width: 10, height: 10, tiles, ...extra };
+}
+
+function createEntity(type: Role, x: number, y: number, z = 0): EntityState {
+  return {
+    id: `${type}_entity`,
+    type,
+    position: { x, y, z },
+    velocity: { x: 0, y: 0 },
+    facing: 'S',
+    state: 'idle',
+  };
+}
+
+function run(level: MovementLevel, entity: EntityState, input: Partial<InputState>, steps: number): void {
+  for (let i = 0; i < steps; i++) {
+    applyInput(entity, { ...IDLE, ...input });
+    stepEntity(level, entity, INPUT_STEP);
+  }
+}
+
+test('walking covers move speed times elapsed time', () => {
+  const entity = createEntity('dog', 2.5, 2.5);
+  run(createLevel(0), entity, { moveY: 1 }, 10);
+  assert.ok(Math.abs(entity.position.y - (2.5 + getMoveSpeed('dog', false) * INPUT_STEP * 10)) < 1e-9);
+});
+
+test('floor height follows tiles, refusing ledges above step height', () => {
+  assert.equal(getFloorHeight(createLevel(MAX_STEP_HEIGHT), 5.5, 2.5, 0), MAX_STEP_HEIGHT);
+  assert.equal(getFloorHeight(createLevel(3), 5.5, 2.5, 0), null);
+  assert.equal(getFloorHeight(createLevel(3), 5.5, 2.5, 3), 3);
+});
+
+test('platform tops count as floor unless overhead or sunk below their tile', () => {
+  const surface = { minX: 2, minY: 2, maxX: 4, maxY: 4 };
+  const raised = createLevel(0, { surfaces: [{ ...surface, z: MAX_STEP_HEIGHT }] });
+  const overhead = createLevel(0, { surfaces: [{ ...surface, z: 3 }] });
+  const sunk = createLevel(0, { surfaces: [{ ...surface, z: -1 }] });
+  assert.equal(getFloorHeight(raised, 3, 3, 0), MAX_STEP_HEIGHT);
+  assert.equal(getFloorHeight(overhead, 3, 3, 0), 0);
+  assert.equal(getFloorHeight(sunk, 3, 3, 0), 0);
+});
+
+test('tall ledges block walking, and jumping lands back on the floor', () => {
+  const level = createLevel(3);
+  const entity = createEntity('dog', 3.5, 2.5);
+  run(level, entity, { moveX: 1, jump: true }, 5);
+  run(level, entity, { moveX: 1 }, 120);
+  assert.ok(entity.position.x < 5);
+  assert.equal(entity.position.z, 0);
+  assert.equal(entity.grounded, true);
+});
+
+test('a character wedged against a ledge can step away but not further in', () => {
+  const level = createLevel(3);
+  const into = createEntity('dog', 4.9, 4.5);
+  run(level, into, { moveX: 1 }, 10);
+  assert.equal(into.position.x, 4.9);
+
+  const away = createEntity('dog', 4.9, 4.5);
+  run(level, away, { moveX: -1 }, 10);
+  assert.ok(away.position.x < 4.9);
+});
+
+test('obstacles block moves into them but not out of them', () => {
+  const level = createLevel(0, { obstacles: [{ shape: 'circle', id: 'panda_entity', x: 3, y: 3, radius: 0.5 }] });
+  const blocked = createEntity('dog', 1.8, 3);
+  run(level, blocked, { moveX: 1 }, 30);
+  assert.ok(blocked.position.x < 3);
+
+  const overlapping = createEntity('dog', 3.2, 3);
+  run(level, overlapping, { moveX: 1 }, 10);
+  assert.ok(overlapping.position.x > 3.2);
+});
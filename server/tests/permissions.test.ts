@@ -0,0 +1,48 @@
+/**
+ * Panda & Dog - Permission Tests
+ * The capability table behind server validation, prompts and the help screen
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  canInteract,
+  getInteractionDenial,
+  getInteractionPrompt,
+  getRoleAbilities,
+} from '../../shared/permissions';
+
+test('role-only actions refuse the other role', () => {
+  assert.equal(canInteract('panda', 'winch', {}, 'operate_start'), true);
+  assert.equal(getInteractionDenial('dog', 'winch', {}, 'operate_start'), 'Permission denied');
+  assert.equal(canInteract('dog', 'camera_node', {}, 'view'), true);
+  assert.equal(canInteract('panda', 'camera_node', {}, 'view'), false);
+});
+
+test('unknown actions and passive types are refused', () => {
+  assert.equal(getInteractionDenial('dog', 'door', {}, 'smash'), 'Permission denied');
+  assert.equal(getInteractionDenial('panda', 'crate', {}, 'toggle'), 'Permission denied');
+});
+
+test('state blocks stop only the roles they name', () => {
+  assert.equal(getInteractionDenial('dog', 'door', { locked: true }, 'toggle'), 'Locked');
+  assert.equal(getInteractionDenial('panda', 'door', { locked: true }, 'toggle'), 'Locked');
+  assert.equal(getInteractionDenial('dog', 'door', { requiresHeavy: true }, 'toggle'), 'Too heavy for Dog');
+  assert.equal(getInteractionDenial('panda', 'door', { requiresHeavy: true }, 'toggle'), null);
+});
+
+test('prompts follow state and disappear when the action is refused', () => {
+  assert.equal(getInteractionPrompt('dog', 'door', { open: false }), 'Open Door');
+  assert.equal(getInteractionPrompt('dog', 'door', { open: true }), 'Close Door');
+  assert.equal(getInteractionPrompt('dog', 'lever', { requiresStrength: true }), null);
+  assert.equal(getInteractionPrompt('panda', 'pressure_plate', {}), null);
+});
+
+test('the help screen lists each role its own abilities and exceptions', () => {
+  const dog = getRoleAbilities('dog');
+  const panda = getRoleAbilities('panda');
+  assert.deepEqual(dog.find((ability) => ability.type === 'door')?.exceptions, ['locked doors', 'heavy doors']);
+  assert.deepEqual(panda.find((ability) => ability.type === 'door')?.exceptions, ['locked doors']);
+  assert.equal(dog.some((ability) => ability.type === 'winch'), false);
+  assert.equal(panda.find((ability) => ability.type === 'winch')?.hold, true);
+});
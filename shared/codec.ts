@@ -0,0 +1,669 @@
+/**
+ * Panda & Dog - Wire Codecs
+ * Encoding of protocol messages. JSON is readable for debugging; the binary
+ * codec packs the high-frequency input and state_update messages and falls
+ * back to JSON text frames for everything else.
+ */
+
+import type { Direction8, InputState, Role, WorldPos } from './types';
+import type { BaseMessage, InputMessage, StateUpdateMessage } from './protocol';
+import { PROTOCOL } from './protocol';
+import type { EntityDelta, InteractableDelta } from './delta';
+
+// ============================================
+// Codec Interface
+// ============================================
+
+export type CodecName = 'binary' | 'json';
+
+// Text frames carry JSON, binary frames carry packed messages
+export type WireData = string | Uint8Array;
+
+export interface MessageCodec {
+  readonly name: CodecName;
+  encode(message: BaseMessage): WireData;
+  decode(data: WireData): unknown;
+}
+
+// ============================================
+// Negotiation
+// ============================================
+
+/**
+ * Versions are compatible when their major numbers match
+ */
+export function isCompatibleVersion(version: string, expected: string = PROTOCOL.VERSION): boolean {
+  return version.split('.')[0] === expected.split('.')[0];
+}
+
+/**
+ * First codec in the client's preference list that we support
+ */
+export function negotiateCodec(offered: readonly string[]): CodecName | null {
+  for (const name of offered) {
+    if (Object.prototype.hasOwnProperty.call(CODECS, name)) return name as CodecName;
+  }
+  return null;
+}
+
+export function getCodec(name: CodecName): MessageCodec {
+  return CODECS[name];
+}
+
+// ============================================
+// Input Quantization
+// ============================================
+
+const AXIS_SCALE = 127;
+
+/**
+ * Round movement axes to the precision the binary codec sends, so client
+ * prediction simulates exactly what the server will see
+ */
+export function quantizeInput(input: InputState): InputState {
+  return {
+    ...input,
+    moveX: quantizeAxis(input.moveX),
+    moveY: quantizeAxis(input.moveY),
+  };
+}
+
+function quantizeAxis(value: number): number {
+  const clamped = Math.max(-1, Math.min(1, value));
+  return Math.round(clamped * AXIS_SCALE) / AXIS_SCALE;
+}
+
+// ============================================
+// JSON Codec
+// ============================================
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+function decodeText(data: WireData): unknown {
+  const text = typeof data === 'string' ? data : textDecoder.decode(data);
+  return JSON.parse(text);
+}
+
+export const jsonCodec: MessageCodec = {
+  name: 'json',
+  encode: (message) => JSON.stringify(message),
+  decode: decodeText,
+};
+
+// ============================================
+// Binary Writer / Reader
+// ============================================
+
+class BinaryWriter {
+  private bytes = new Uint8Array(256);
+  private view = new DataView(this.bytes.buffer);
+  private offset = 0;
+
+  private reserve(size: number): void {
+    if (this.offset + size <= this.bytes.length) return;
+
+    let capacity = this.bytes.length * 2;
+    while (capacity < this.offset + size) capacity *= 2;
+    const grown = new Uint8Array(capacity);
+    grown.set(this.bytes);
+    this.bytes = grown;
+    this.view = new DataView(grown.buffer);
+  }
+
+  u8(value: number): void {
+    this.reserve(1);
+    this.view.setUint8(this.offset, value);
+    this.offset += 1;
+  }
+
+  i8(value: number): void {
+    this.reserve(1);
+    this.view.setInt8(this.offset, value);
+    this.offset += 1;
+  }
+
+  u16(value: number): void {
+    this.reserve(2);
+    this.view.setUint16(this.offset, value);
+    this.offset += 2;
+  }
+
+  u32(value: number): void {
+    this.reserve(4);
+    this.view.setUint32(this.offset, value);
+    this.offset += 4;
+  }
+
+  i32(value: number): void {
+    this.reserve(4);
+    this.view.setInt32(this.offset, value);
+    this.offset += 4;
+  }
+
+  f32(value: number): void {
+    this.reserve(4);
+    this.view.setFloat32(this.offset, value);
+    this.offset += 4;
+  }
+
+  f64(value: number): void {
+    this.reserve(8);
+    this.view.setFloat64(this.offset, value);
+    this.offset += 8;
+  }
+
+  string(value: string): void {
+    const encoded = textEncoder.encode(value);
+    this.u16(encoded.length);
+    this.reserve(encoded.length);
+    this.bytes.set(encoded, this.offset);
+    this.offset += encoded.length;
+  }
+
+  finish(): Uint8Array {
+    return this.bytes.slice(0, this.offset);
+  }
+}
+
+class BinaryReader {
+  private view: DataView;
+  private offset = 0;
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  u8(): number {
+    const value = this.view.getUint8(this.offset);
+    this.offset += 1;
+    return value;
+  }
+
+  i8(): number {
+    const value = this.view.getInt8(this.offset);
+    this.offset += 1;
+    return value;
+  }
+
+  u16(): number {
+    const value = this.view.getUint16(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  u32(): number {
+    const value = this.view.getUint32(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  i32(): number {
+    const value = this.view.getInt32(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  f32(): number {
+    const value = this.view.getFloat32(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  f64(): number {
+    const value = this.view.getFloat64(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  string(): string {
+    const length = this.u16();
+    if (this.offset + length > this.bytes.length) {
+      throw new RangeError('String extends past end of message');
+    }
+    const value = textDecoder.decode(this.bytes.subarray(this.offset, this.offset + length));
+    this.offset += length;
+    return value;
+  }
+}
+
+// ============================================
+// Generic Values
+// ============================================
+
+// Tagged encoding for free-form data such as interactable state
+const enum ValueTag {
+  Null = 0,
+  False = 1,
+  True = 2,
+  Int = 3,
+  Float = 4,
+  String = 5,
+  Array = 6,
+  Object = 7,
+}
+
+function writeValue(writer: BinaryWriter, value: unknown): void {
+  if (value === null || value === undefined) {
+    writer.u8(ValueTag.Null);
+  } else if (typeof value === 'boolean') {
+    writer.u8(value ? ValueTag.True : ValueTag.False);
+  } else if (typeof value === 'number') {
+    if (Number.isInteger(value) && value >= -0x80000000 && value <= 0x7fffffff) {
+      writer.u8(ValueTag.Int);
+      writer.i32(value);
+    } else {
+      writer.u8(ValueTag.Float);
+      writer.f64(value);
+    }
+  } else if (typeof value === 'string') {
+    writer.u8(ValueTag.String);
+    writer.string(value);
+  } else if (Array.isArray(value)) {
+    writer.u8(ValueTag.Array);
+    writer.u16(value.length);
+    for (const item of value) {
+      writeValue(writer, item);
+    }
+  } else if (typeof value === 'object') {
+    // Undefined fields are dropped, as in JSON
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+    writer.u8(ValueTag.Object);
+    writer.u16(entries.length);
+    for (const [key, item] of entries) {
+      writer.string(key);
+      writeValue(writer, item);
+    }
+  } else {
+    throw new TypeError(`Cannot encode value of type ${typeof value}`);
+  }
+}
+
+function readValue(reader: BinaryReader): unknown {
+  const tag = reader.u8();
+  switch (tag) {
+    case ValueTag.Null: return null;
+    case ValueTag.False: return false;
+    case ValueTag.True: return true;
+    case ValueTag.Int: return reader.i32();
+    case ValueTag.Float: return reader.f64();
+    case ValueTag.String: return reader.string();
+    case ValueTag.Array: {
+      const length = reader.u16();
+      const result: unknown[] = [];
+      for (let i = 0; i < length; i++) {
+        result.push(readValue(reader));
+      }
+      return result;
+    }
+    case ValueTag.Object: {
+      const count = reader.u16();
+      const result: Record<string, unknown> = {};
+      for (let i = 0; i < count; i++) {
+        const key = reader.string();
+        result[key] = readValue(reader);
+      }
+      return result;
+    }
+    default:
+      throw new RangeError(`Unknown value tag ${tag}`);
+  }
+}
+
+// ============================================
+// Field Helpers
+// ============================================
+
+const ROLES: Role[] = ['dog', 'panda'];
+const DIRECTIONS: Direction8[] = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+function writePosition(writer: BinaryWriter, position: WorldPos): void {
+  writer.f32(position.x);
+  writer.f32(position.y);
+  writer.f32(position.z);
+}
+
+function readPosition(reader: BinaryReader): WorldPos {
+  return { x: reader.f32(), y: reader.f32(), z: reader.f32() };
+}
+
+function readEnum<T>(reader: BinaryReader, values: readonly T[]): T {
+  const index = reader.u8();
+  if (index >= values.length) {
+    throw new RangeError(`Enum index ${index} out of range`);
+  }
+  return values[index];
+}
+
+function writeStringList(writer: BinaryWriter, values: readonly string[]): void {
+  writer.u16(values.length);
+  for (const value of values) {
+    writer.string(value);
+  }
+}
+
+function readStringList(reader: BinaryReader): string[] {
+  const length = reader.u16();
+  const result: string[] = [];
+  for (let i = 0; i < length; i++) {
+    result.push(reader.string());
+  }
+  return result;
+}
+
+// ============================================
+// Input
+// ============================================
+
+const enum InputButton {
+  Run = 1 << 0,
+  Jump = 1 << 1,
+  Interact = 1 << 2,
+  Surveillance = 1 << 3,
+  OperateHold = 1 << 4,
+}
+
+function writeInput(writer: BinaryWriter, message: InputMessage): void {
+  const { input } = message;
+  writer.f64(message.timestamp);
+  writer.u32(message.tick);
+  writer.u32(message.sequence);
+  writer.i8(Math.round(quantizeAxis(input.moveX) * AXIS_SCALE));
+  writer.i8(Math.round(quantizeAxis(input.moveY) * AXIS_SCALE));
+  writer.u8(
+    (input.run ? InputButton.Run : 0) |
+    (input.jump ? InputButton.Jump : 0) |
+    (input.interact ? InputButton.Interact : 0) |
+    (input.surveillance ? InputButton.Surveillance : 0) |
+    (input.operateHold ? InputButton.OperateHold : 0)
+  );
+  writePosition(writer, message.position);
+}
+
+function readInput(reader: BinaryReader): InputMessage {
+  const timestamp = reader.f64();
+  const tick = reader.u32();
+  const sequence = reader.u32();
+  const moveX = reader.i8() / AXIS_SCALE;
+  const moveY = reader.i8() / AXIS_SCALE;
+  const buttons = reader.u8();
+
+  return {
+    type: 'input',
+    timestamp,
+    tick,
+    sequence,
+    input: {
+      moveX,
+      moveY,
+      run: (buttons & InputButton.Run) !== 0,
+      jump: (buttons & InputButton.Jump) !== 0,
+      interact: (buttons & InputButton.Interact) !== 0,
+      surveillance: (buttons & InputButton.Surveillance) !== 0,
+      operateHold: (buttons & InputButton.OperateHold) !== 0,
+    },
+    position: readPosition(reader),
+  };
+}
+
+// ============================================
+// State Update
+// ============================================
+
+// Entity fields with a packed layout; anything else goes in the extras object
+const ENTITY_FIELDS = [
+  'type', 'position', 'velocity', 'facing', 'state', 'animation', 'lastProcessedInput',
+] as const;
+const ENTITY_EXTRAS = 1 << ENTITY_FIELDS.length;
+
+const enum InteractableField {
+  Type = 1 << 0,
+  Position = 1 << 1,
+  State = 1 << 2,
+  LinkedIds = 1 << 3,
+}
+
+const enum UpdateSection {
+  RemovedEntities = 1 << 0,
+  RemovedInteractables = 1 << 1,
+  Pings = 1 << 2,
+  PuzzleStates = 1 << 3,
+}
+
+function writeEntityField(writer: BinaryWriter, field: typeof ENTITY_FIELDS[number], value: unknown): void {
+  switch (field) {
+    case 'type':
+      writer.u8(ROLES.indexOf(value as Role));
+      break;
+    case 'position':
+      writePosition(writer, value as WorldPos);
+      break;
+    case 'velocity': {
+      const velocity = value as { x: number; y: number };
+      writer.f32(velocity.x);
+      writer.f32(velocity.y);
+      break;
+    }
+    case 'facing':
+      writer.u8(DIRECTIONS.indexOf(value as Direction8));
+      break;
+    case 'state':
+    case 'animation':
+      writer.string(value as string);
+      break;
+    case 'lastProcessedInput':
+      writer.u32(value as number);
+      break;
+  }
+}
+
+function readEntityField(reader: BinaryReader, field: typeof ENTITY_FIELDS[number]): unknown {
+  switch (field) {
+    case 'type': return readEnum(reader, ROLES);
+    case 'position': return readPosition(reader);
+    case 'velocity': return { x: reader.f32(), y: reader.f32() };
+    case 'facing': return readEnum(reader, DIRECTIONS);
+    case 'state':
+    case 'animation': return reader.string();
+    case 'lastProcessedInput': return reader.u32();
+  }
+}
+
+function writeEntity(writer: BinaryWriter, entity: EntityDelta): void {
+  const fields = entity as Record<string, unknown>;
+  let present = 0;
+  let removed = 0;
+  ENTITY_FIELDS.forEach((field, bit) => {
+    if (!(field in fields) || fields[field] === undefined) return;
+    present |= 1 << bit;
+    if (fields[field] === null) removed |= 1 << bit;
+  });
+
+  const extras: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(fields)) {
+    if (key === 'id' || value === undefined) continue;
+    if ((ENTITY_FIELDS as readonly string[]).includes(key)) continue;
+    extras[key] = value;
+  }
+  if (Object.keys(extras).length > 0) present |= ENTITY_EXTRAS;
+
+  writer.string(entity.id);
+  writer.u8(present);
+  writer.u8(removed);
+  ENTITY_FIELDS.forEach((field, bit) => {
+    if ((present & (1 << bit)) && !(removed & (1 << bit))) {
+      writeEntityField(writer, field, fields[field]);
+    }
+  });
+  if (present & ENTITY_EXTRAS) {
+    writeValue(writer, extras);
+  }
+}
+
+function readEntity(reader: BinaryReader): EntityDelta {
+  const entity: Record<string, unknown> = { id: reader.string() };
+  const present = reader.u8();
+  const removed = reader.u8();
+
+  ENTITY_FIELDS.forEach((field, bit) => {
+    if (!(present & (1 << bit))) return;
+    entity[field] = removed & (1 << bit) ? null : readEntityField(reader, field);
+  });
+  if (present & ENTITY_EXTRAS) {
+    Object.assign(entity, readValue(reader) as Record<string, unknown>);
+  }
+
+  return entity as EntityDelta;
+}
+
+function writeInteractable(writer: BinaryWriter, interactable: InteractableDelta): void {
+  const fields =
+    (interactable.type !== undefined ? InteractableField.Type : 0) |
+    (interactable.position !== undefined ? InteractableField.Position : 0) |
+    (interactable.state !== undefined ? InteractableField.State : 0) |
+    (interactable.linkedIds !== undefined ? InteractableField.LinkedIds : 0);
+
+  writer.string(interactable.id);
+  writer.u8(fields);
+  if (interactable.type !== undefined) writer.string(interactable.type);
+  if (interactable.position !== undefined) writePosition(writer, interactable.position);
+  if (interactable.state !== undefined) writeValue(writer, interactable.state);
+  if (interactable.linkedIds !== undefined) writeValue(writer, interactable.linkedIds);
+}
+
+function readInteractable(reader: BinaryReader): InteractableDelta {
+  const interactable: InteractableDelta = { id: reader.string() };
+  const fields = reader.u8();
+
+  if (fields & InteractableField.Type) {
+    interactable.type = reader.string() as InteractableDelta['type'];
+  }
+  if (fields & InteractableField.Position) {
+    interactable.position = readPosition(reader);
+  }
+  if (fields & InteractableField.State) {
+    interactable.state = readValue(reader) as Record<string, unknown>;
+  }
+  if (fields & InteractableField.LinkedIds) {
+    interactable.linkedIds = readValue(reader) as string[] | null;
+  }
+
+  return interactable;
+}
+
+function writeStateUpdate(writer: BinaryWriter, message: StateUpdateMessage): void {
+  const sections =
+    (message.removedEntities ? UpdateSection.RemovedEntities : 0) |
+    (message.removedInteractables ? UpdateSection.RemovedInteractables : 0) |
+    (message.pings ? UpdateSection.Pings : 0) |
+    (message.puzzleStates ? UpdateSection.PuzzleStates : 0);
+
+  writer.f64(message.timestamp);
+  writer.u32(message.tick);
+  writer.u32(message.baseTick);
+  writer.u8(sections);
+
+  writer.u16(message.entities.length);
+  for (const entity of message.entities) {
+    writeEntity(writer, entity);
+  }
+  writer.u16(message.interactables.length);
+  for (const interactable of message.interactables) {
+    writeInteractable(writer, interactable);
+  }
+
+  if (message.removedEntities) writeStringList(writer, message.removedEntities);
+  if (message.removedInteractables) writeStringList(writer, message.removedInteractables);
+  if (message.pings) writeValue(writer, message.pings);
+  if (message.puzzleStates) writeValue(writer, message.puzzleStates);
+}
+
+function readStateUpdate(reader: BinaryReader): StateUpdateMessage {
+  const timestamp = reader.f64();
+  const tick = reader.u32();
+  const baseTick = reader.u32();
+  const sections = reader.u8();
+
+  const entities: EntityDelta[] = [];
+  const entityCount = reader.u16();
+  for (let i = 0; i < entityCount; i++) {
+    entities.push(readEntity(reader));
+  }
+  const interactables: InteractableDelta[] = [];
+  const interactableCount = reader.u16();
+  for (let i = 0; i < interactableCount; i++) {
+    interactables.push(readInteractable(reader));
+  }
+
+  const message: StateUpdateMessage = {
+    type: 'state_update',
+    timestamp,
+    tick,
+    baseTick,
+    entities,
+    interactables,
+  };
+
+  if (sections & UpdateSection.RemovedEntities) {
+    message.removedEntities = readStringList(reader);
+  }
+  if (sections & UpdateSection.RemovedInteractables) {
+    message.removedInteractables = readStringList(reader);
+  }
+  if (sections & UpdateSection.Pings) {
+    message.pings = readValue(reader) as StateUpdateMessage['pings'];
+  }
+  if (sections & UpdateSection.PuzzleStates) {
+    message.puzzleStates = readValue(reader) as StateUpdateMessage['puzzleStates'];
+  }
+
+  return message;
+}
+
+// ============================================
+// Binary Codec
+// ============================================
+
+const enum BinaryMessage {
+  Input = 1,
+  StateUpdate = 2,
+}
+
+export const binaryCodec: MessageCodec = {
+  name: 'binary',
+
+  encode(message) {
+    const writer = new BinaryWriter();
+    switch (message.type) {
+      case 'input':
+        writer.u8(BinaryMessage.Input);
+        writeInput(writer, message as InputMessage);
+        return writer.finish();
+      case 'state_update':
+        writer.u8(BinaryMessage.StateUpdate);
+        writeStateUpdate(writer, message as StateUpdateMessage);
+        return writer.finish();
+      default:
+        // Infrequent messages aren't worth a packed layout
+        return JSON.stringify(message);
+    }
+  },
+
+  decode(data) {
+    if (typeof data === 'string') return JSON.parse(data);
+
+    const reader = new BinaryReader(data);
+    const kind = reader.u8();
+    switch (kind) {
+      case BinaryMessage.Input: return readInput(reader);
+      case BinaryMessage.StateUpdate: return readStateUpdate(reader);
+      default:
+        throw new RangeError(`Unknown binary message ${kind}`);
+    }
+  },
+};
+
+const CODECS: Record<CodecName, MessageCodec> = {
+  binary: binaryCodec,
+  json: jsonCodec,
+};
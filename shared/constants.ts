@@ -35,7 +35,7 @@ export const DOG = {
   WALK_SPEED: 4.5,      // Tiles per second
   RUN_SPEED: 7.0,       // Tiles per second
   COLLISION_RADIUS: 0.3,
-  JUMP_FORCE: 50,
+  JUMP_FORCE: 9,        // Elevation per second - clears one-high ledges
   CAN_PUSH_HEAVY: false,
   WEIGHT: 'light' as const,
 } as const;
@@ -44,7 +44,7 @@ export const PANDA = {
   WALK_SPEED: 2.5,      // Tiles per second
   RUN_SPEED: 4.0,       // Tiles per second
   COLLISION_RADIUS: 0.4,
-  JUMP_FORCE: 35,       // Lower jump
+  JUMP_FORCE: 6,        // Lower jump - can't reach raised tiles
   CAN_PUSH_HEAVY: true,
   WEIGHT: 'heavy' as const,
 } as const;
@@ -53,15 +53,16 @@ export const PANDA = {
 // Physics
 // ============================================
 
-export const GRAVITY = 150;  // Tiles per second squared
-export const MAX_FALL_SPEED = 20;
+export const GRAVITY = 30;  // Elevation per second squared
+export const MAX_FALL_SPEED = 20;  // Elevation per second
 export const MAX_STEP_HEIGHT = 0.3;  // Max height difference to walk up
 
 // ============================================
 // Interactables
 // ============================================
 
-export const INTERACTION_RANGE = 1.5;  // Tiles
+export const INTERACTION_RANGE = 1.5;   // Tiles from the edge of an interactable
+export const INTERACTION_HEIGHT = 1;    // Elevation difference a character can reach across
 
 export const CRATE = {
   PUSH_SPEED: 1.5,      // Tiles per second
@@ -71,6 +72,7 @@ export const CRATE = {
 
 export const WINCH = {
   OPERATE_SPEED: 0.5,   // Extension per second (0-1 range)
+  RETRACT_SPEED: 0.2,   // Extension lost per second once released
   REQUIRE_HOLD: true,
 } as const;
 
@@ -79,9 +81,16 @@ export const PLATFORM = {
   PAUSE_AT_ENDS: 1000,  // Ms pause at waypoint
 } as const;
 
+export const HAZARD = {
+  RESPAWN_DELAY: 1500,  // Ms a knocked out character waits before respawning
+  LASER_HEIGHT: 2,      // Elevation a laser beam reaches above its base
+} as const;
+
 export const PRESSURE_PLATE = {
   ACTIVATION_DELAY: 100,    // Ms before activation
   DEACTIVATION_DELAY: 500,  // Ms before deactivation
+  RADIUS: 0.8,              // Tiles from the plate's centre that press it
+  WEIGHTS: { light: 1, heavy: 2 },  // Numeric weight of each weight class
 } as const;
 
 // ============================================
@@ -0,0 +1,238 @@
+/**
+ * Panda & Dog - State Deltas
+ * Diffing and patching of GameState snapshots for delta-compressed updates
+ */
+
+import type {
+  EntityState,
+  GameState,
+  InteractableState,
+  PingMarker,
+  PuzzleState,
+} from './types';
+
+// ============================================
+// Delta Types
+// ============================================
+
+// Changed top-level fields only; a null value marks a field that was removed
+export type EntityDelta = { id: string } & {
+  [K in Exclude<keyof EntityState, 'id'>]?: EntityState[K] | null;
+};
+
+export interface InteractableDelta {
+  id: string;
+  type?: InteractableState['type'];
+  position?: InteractableState['position'];
+  state?: Record<string, unknown>;  // Changed state keys only, null = removed
+  linkedIds?: string[] | null;
+}
+
+export interface GameStateDelta {
+  tick: number;
+  baseTick: number;                  // Tick of the snapshot this delta applies to
+  entities: EntityDelta[];
+  interactables: InteractableDelta[];
+  removedEntities?: string[];
+  removedInteractables?: string[];
+  pings?: PingMarker[];              // Full list, only when it changed
+  puzzleStates?: PuzzleState[];      // Full list, only when it changed
+}
+
+// ============================================
+// Comparison
+// ============================================
+
+export function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    if (a.length !== b.length) return false;
+    return a.every((value, i) => valuesEqual(value, b[i]));
+  }
+
+  const objA = a as Record<string, unknown>;
+  const objB = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(objA), ...Object.keys(objB)]);
+  for (const key of keys) {
+    if (!valuesEqual(objA[key], objB[key])) return false;
+  }
+  return true;
+}
+
+/**
+ * Fields of `next` that differ from `base`, with null for removed fields
+ */
+function diffFields(
+  base: Record<string, unknown>,
+  next: Record<string, unknown>,
+  skip: string[] = []
+): Record<string, unknown> | null {
+  const changed: Record<string, unknown> = {};
+  let any = false;
+
+  const keys = new Set([...Object.keys(base), ...Object.keys(next)]);
+  for (const key of keys) {
+    if (skip.includes(key)) continue;
+    if (valuesEqual(base[key], next[key])) continue;
+    changed[key] = next[key] === undefined ? null : next[key];
+    any = true;
+  }
+
+  return any ? changed : null;
+}
+
+function patchFields<T extends object>(base: T, changes: Record<string, unknown>): T {
+  const result = { ...base } as Record<string, unknown>;
+  for (const [key, value] of Object.entries(changes)) {
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = value;
+    }
+  }
+  return result as T;
+}
+
+// ============================================
+// Diff / Apply
+// ============================================
+
+/**
+ * Compute the delta that turns `base` into `next`
+ */
+export function diffGameState(base: GameState, next: GameState): GameStateDelta {
+  const delta: GameStateDelta = {
+    tick: next.tick,
+    baseTick: base.tick,
+    entities: [],
+    interactables: [],
+  };
+
+  // Entities
+  const baseEntities = new Map(base.entities.map(e => [e.id, e]));
+  for (const entity of next.entities) {
+    const previous = baseEntities.get(entity.id);
+    if (!previous) {
+      delta.entities.push(entity);
+      continue;
+    }
+    const changed = diffFields(
+      previous as unknown as Record<string, unknown>,
+      entity as unknown as Record<string, unknown>,
+      ['id']
+    );
+    if (changed) {
+      delta.entities.push({ id: entity.id, ...changed } as EntityDelta);
+    }
+    baseEntities.delete(entity.id);
+  }
+  if (baseEntities.size > 0) {
+    delta.removedEntities = Array.from(baseEntities.keys());
+  }
+
+  // Interactables - state is diffed key by key so e.g. platform waypoints are only sent once
+  const baseInteractables = new Map(base.interactables.map(i => [i.id, i]));
+  for (const interactable of next.interactables) {
+    const previous = baseInteractables.get(interactable.id);
+    if (!previous) {
+      delta.interactables.push(interactable);
+      continue;
+    }
+
+    const changed: InteractableDelta = { id: interactable.id };
+    let any = false;
+    if (previous.type !== interactable.type) {
+      changed.type = interactable.type;
+      any = true;
+    }
+    if (!valuesEqual(previous.position, interactable.position)) {
+      changed.position = interactable.position;
+      any = true;
+    }
+    if (!valuesEqual(previous.linkedIds, interactable.linkedIds)) {
+      changed.linkedIds = interactable.linkedIds ?? null;
+      any = true;
+    }
+    const stateChanges = diffFields(previous.state, interactable.state);
+    if (stateChanges) {
+      changed.state = stateChanges;
+      any = true;
+    }
+
+    if (any) {
+      delta.interactables.push(changed);
+    }
+    baseInteractables.delete(interactable.id);
+  }
+  if (baseInteractables.size > 0) {
+    delta.removedInteractables = Array.from(baseInteractables.keys());
+  }
+
+  // Pings and puzzles are small and change rarely - send whole lists on change
+  if (!valuesEqual(base.pings, next.pings)) {
+    delta.pings = next.pings;
+  }
+  if (!valuesEqual(base.puzzleStates, next.puzzleStates)) {
+    delta.puzzleStates = next.puzzleStates;
+  }
+
+  return delta;
+}
+
+/**
+ * Rebuild the full state for `delta.tick` from the snapshot at `delta.baseTick`.
+ * The base is left untouched; unchanged objects are shared with it.
+ */
+export function applyGameStateDelta(
+  base: GameState,
+  delta: GameStateDelta,
+  timestamp: number = base.timestamp
+): GameState {
+  // Entities
+  const entities = new Map(base.entities.map(e => [e.id, e]));
+  for (const id of delta.removedEntities ?? []) {
+    entities.delete(id);
+  }
+  for (const change of delta.entities) {
+    const previous = entities.get(change.id);
+    entities.set(
+      change.id,
+      previous ? patchFields(previous, change) : (change as EntityState)
+    );
+  }
+
+  // Interactables
+  const interactables = new Map(base.interactables.map(i => [i.id, i]));
+  for (const id of delta.removedInteractables ?? []) {
+    interactables.delete(id);
+  }
+  for (const change of delta.interactables) {
+    const previous = interactables.get(change.id);
+    if (!previous) {
+      interactables.set(change.id, change as InteractableState);
+      continue;
+    }
+
+    const { state, ...fields } = change;
+    const patched = patchFields(previous, fields);
+    if (state) {
+      patched.state = patchFields(previous.state, state);
+    }
+    interactables.set(change.id, patched);
+  }
+
+  return {
+    tick: delta.tick,
+    timestamp,
+    entities: Array.from(entities.values()),
+    interactables: Array.from(interactables.values()),
+    pings: delta.pings ?? base.pings,
+    puzzleStates: delta.puzzleStates ?? base.puzzleStates,
+  };
+}
@@ -6,3 +6,9 @@
 export * from './types';
 export * from './protocol';
 export * from './constants';
+export * from './movement';
+export * from './interaction';
+export * from './permissions';
+export * from './delta';
+export * from './codec';
+export * from './validation';
@@ -0,0 +1,89 @@
+/**
+ * Panda & Dog - Interaction Reach
+ * Whether a character can reach an interactable, shared by the server's
+ * validation and the client's interaction prompt so the two always agree
+ */
+
+import type { Direction8, EntityState, InteractableState } from './types';
+import { INTERACTION_RANGE, INTERACTION_HEIGHT } from './constants';
+import { getFootprint } from './movement';
+
+// ============================================
+// Types
+// ============================================
+
+export type ReachFailure = 'out_of_range' | 'out_of_height' | 'facing_away';
+
+// ============================================
+// Constants
+// ============================================
+
+// Anything this close counts as in front, whichever way the character faces
+const ALWAYS_FACING_DISTANCE = 0.5;
+
+const FACING_VECTORS: Record<Direction8, { x: number; y: number }> = {
+  N: { x: 0, y: -1 },
+  NE: { x: Math.SQRT1_2, y: -Math.SQRT1_2 },
+  E: { x: 1, y: 0 },
+  SE: { x: Math.SQRT1_2, y: Math.SQRT1_2 },
+  S: { x: 0, y: 1 },
+  SW: { x: -Math.SQRT1_2, y: Math.SQRT1_2 },
+  W: { x: -1, y: 0 },
+  NW: { x: -Math.SQRT1_2, y: -Math.SQRT1_2 },
+};
+
+// ============================================
+// Reach Test
+// ============================================
+
+/**
+ * Distance from a character to the nearest edge of an interactable's footprint
+ */
+export function getReachDistance(entity: Pick<EntityState, 'position'>, interactable: InteractableState): number {
+  const box = getFootprint(interactable);
+  const closestX = Math.max(box.minX, Math.min(box.maxX, entity.position.x));
+  const closestY = Math.max(box.minY, Math.min(box.maxY, entity.position.y));
+  return Math.hypot(entity.position.x - closestX, entity.position.y - closestY);
+}
+
+/**
+ * Why a character can't reach an interactable, or null if it can. It has to be
+ * within INTERACTION_RANGE, within INTERACTION_HEIGHT of its elevation, and not
+ * behind the character.
+ */
+export function getReachFailure(
+  entity: Pick<EntityState, 'position' | 'facing'>,
+  interactable: InteractableState
+): ReachFailure | null {
+  const distance = getReachDistance(entity, interactable);
+  if (distance > INTERACTION_RANGE) return 'out_of_range';
+
+  if (Math.abs(entity.position.z - interactable.position.z) > INTERACTION_HEIGHT) return 'out_of_height';
+
+  if (distance > ALWAYS_FACING_DISTANCE) {
+    const facing = FACING_VECTORS[entity.facing];
+    const dx = interactable.position.x - entity.position.x;
+    const dy = interactable.position.y - entity.position.y;
+    if (facing.x * dx + facing.y * dy < 0) return 'facing_away';
+  }
+
+  return null;
+}
+
+export function canReach(entity: Pick<EntityState, 'position' | 'facing'>, interactable: InteractableState): boolean {
+  return getReachFailure(entity, interactable) === null;
+}
+
+/**
+ * Player-facing wording for a failed reach test
+ */
+export function getReachFailureReason(failure: ReachFailure): string {
+  switch (failure) {
+    case 'out_of_range':
+      return 'Too far away';
+    case 'out_of_height':
+      return 'Out of reach above or below';
+    case 'facing_away':
+      return 'Facing the wrong way';
+  }
+}
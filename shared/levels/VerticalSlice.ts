@@ -20,6 +20,9 @@ import type {
   TileType,
   InteractableConfig,
   PuzzleConfig,
+  PuzzleCondition,
+  LogicNodeConfig,
+  SignalWire,
   WorldPos,
 } from '../types';
 
@@ -153,8 +156,8 @@ export function createVerticalSliceLevel(): LevelData {
       initialState: {
         active: true,
         hazardType: 'laser',
+        size: { x: 1, y: 2 },   // Fills the two-tile gap
       },
-      linkedIds: ['plate_a'],
     },
     // Pressure plate that disables laser (needs heavy weight)
     {
@@ -166,7 +169,6 @@ export function createVerticalSliceLevel(): LevelData {
         weightThreshold: 'heavy',
         currentWeight: 0,
       },
-      linkedIds: ['hazard_laser_a'],
     },
     // Crate that Panda pushes onto pressure plate
     {
@@ -202,7 +204,6 @@ export function createVerticalSliceLevel(): LevelData {
         position: 'off',
         requiresStrength: false,
       },
-      linkedIds: ['winch_b'],
     },
     // Winch that Panda operates (needs power first)
     {
@@ -213,23 +214,24 @@ export function createVerticalSliceLevel(): LevelData {
         extended: 0,
         operating: false,
         requiresPower: true,
-        poweredById: 'lever_power_b',
+        powered: false,
+        ratchet: true,   // Stays wound so Panda can let go and cross
       },
-      linkedIds: ['platform_bridge_b'],
     },
     // Bridge platform
     {
       id: 'platform_bridge_b',
       type: 'platform',
-      position: { x: 9.5, y: 14, z: -1 },
+      position: { x: 10, y: 14.5, z: -1 },
       initialState: {
         currentPosition: 0,
         moving: false,
         direction: 1,
         speed: 0.5,
+        size: { x: 4, y: 1 },     // Spans the water across row 14
         waypoints: [
-          { x: 9.5, y: 14, z: -1 },  // Retracted (below water)
-          { x: 9.5, y: 14, z: 0 },   // Extended (bridge level)
+          { x: 10, y: 14.5, z: -1 },  // Retracted (below water)
+          { x: 10, y: 14.5, z: 0 },   // Extended (bridge level)
         ],
       },
     },
@@ -245,14 +247,14 @@ export function createVerticalSliceLevel(): LevelData {
         maxRotation: 90,
       },
     },
-    // Door between B and C (opens when bridge is extended)
+    // Door between B and C (puzzle B's reward unlocks it)
     {
       id: 'door_bc',
       type: 'door',
       position: { x: 15, y: 14, z: 0 },
       initialState: {
         open: false,
-        locked: false,
+        locked: true,   // Until the bridge is extended
         requiresHeavy: false,
       },
     },
@@ -268,7 +270,6 @@ export function createVerticalSliceLevel(): LevelData {
         weightThreshold: 'light',
         currentWeight: 0,
       },
-      linkedIds: ['door_final'],
     },
     // Panda's pressure plate (heavy weight required)
     {
@@ -280,7 +281,6 @@ export function createVerticalSliceLevel(): LevelData {
         weightThreshold: 'heavy',
         currentWeight: 0,
       },
-      linkedIds: ['door_final'],
     },
     // Final door (requires BOTH plates active)
     {
@@ -291,6 +291,7 @@ export function createVerticalSliceLevel(): LevelData {
         open: false,
         locked: true,  // Locked until both plates active
         requiresHeavy: true,
+        size: { x: 1, y: 2 },   // Fills the two-tile doorway
       },
     },
     // Camera node for overview
@@ -307,7 +308,7 @@ export function createVerticalSliceLevel(): LevelData {
     },
 
     // === HELPER BUTTONS ===
-    // Reset button for Puzzle A (resets crate position)
+    // Reset button for Puzzle A (restores the crate, plate and laser)
     {
       id: 'button_reset_a',
       type: 'button',
@@ -317,11 +318,26 @@ export function createVerticalSliceLevel(): LevelData {
         momentary: true,
         cooldown: 0,
       },
-      linkedIds: ['crate_a'],
     },
   ];
 
   // === PUZZLES ===
+  // Each plate in Puzzle C has to be held down by its own character
+  const dogOnPlateC: PuzzleCondition = {
+    type: 'and',
+    conditions: [
+      { type: 'role_in_zone', role: 'dog', zone: { min: { x: 17, y: 12, z: 0 }, max: { x: 18, y: 13, z: 0 } } },
+      { type: 'interactable_state', targetId: 'plate_c_dog', state: { activated: true } },
+    ],
+  };
+  const pandaOnPlateC: PuzzleCondition = {
+    type: 'and',
+    conditions: [
+      { type: 'role_in_zone', role: 'panda', zone: { min: { x: 20, y: 15, z: 0 }, max: { x: 21, y: 16, z: 0 } } },
+      { type: 'interactable_state', targetId: 'plate_c_panda', state: { activated: true } },
+    ],
+  };
+
   const puzzles: PuzzleConfig[] = [
     {
       id: 'puzzle_a',
@@ -342,13 +358,27 @@ export function createVerticalSliceLevel(): LevelData {
           id: 'obj_a_disable',
           description: 'Disable the laser by weighing down the pressure plate',
           condition: {
-            type: 'interactable_state',
-            targetId: 'hazard_laser_a',
-            state: { active: false },
+            type: 'and',
+            conditions: [
+              { type: 'interactable_state', targetId: 'plate_a', state: { activated: true } },
+              { type: 'interactable_state', targetId: 'hazard_laser_a', state: { active: false } },
+            ],
           },
         },
       ],
-      completionReward: 'Pathway to Puzzle B opens',
+      rewards: [
+        {
+          type: 'reveal_area',
+          areaId: 'area_b',
+          name: 'Bridge Builder',
+          zone: { min: { x: 1, y: 11, z: 0 }, max: { x: 14, y: 18, z: 0 } },
+        },
+      ],
+      interactableIds: ['hazard_laser_a', 'plate_a', 'crate_a'],
+      checkpoint: {
+        zone: { min: { x: 1, y: 1, z: 0 }, max: { x: 9, y: 9, z: 0 } },
+        spawns: { dog: { x: 3, y: 5, z: 0 }, panda: { x: 6, y: 5, z: 0 } },
+      },
     },
     {
       id: 'puzzle_b',
@@ -368,13 +398,21 @@ export function createVerticalSliceLevel(): LevelData {
           id: 'obj_b_bridge',
           description: 'Panda: Operate the winch to raise the bridge',
           condition: {
-            type: 'interactable_state',
+            type: 'compare',
             targetId: 'platform_bridge_b',
-            state: { currentPosition: 1 },
+            key: 'currentPosition',
+            op: '>=',
+            value: 1,
           },
         },
       ],
-      completionReward: 'door_bc',
+      prerequisites: ['puzzle_a'],
+      rewards: [{ type: 'unlock_door', targetId: 'door_bc' }],
+      interactableIds: ['lever_power_b', 'winch_b', 'platform_bridge_b'],
+      checkpoint: {
+        zone: { min: { x: 1, y: 11, z: 0 }, max: { x: 7, y: 18, z: 0 } },
+        spawns: { dog: { x: 3.5, y: 12.5, z: 0 }, panda: { x: 5.5, y: 16.5, z: 0 } },
+      },
     },
     {
       id: 'puzzle_c',
@@ -385,32 +423,51 @@ export function createVerticalSliceLevel(): LevelData {
           id: 'obj_c_both',
           description: 'Both players on pressure plates at the same time',
           condition: {
-            type: 'all_objectives',
+            type: 'and',
+            conditions: [dogOnPlateC, pandaOnPlateC],
           },
         },
         {
           id: 'obj_c_dog',
           description: 'Dog standing on the left plate',
-          condition: {
-            type: 'interactable_state',
-            targetId: 'plate_c_dog',
-            state: { activated: true },
-          },
+          condition: dogOnPlateC,
         },
         {
           id: 'obj_c_panda',
           description: 'Panda standing on the right plate',
-          condition: {
-            type: 'interactable_state',
-            targetId: 'plate_c_panda',
-            state: { activated: true },
-          },
+          condition: pandaOnPlateC,
         },
       ],
-      completionReward: 'door_final',
+      prerequisites: ['puzzle_b'],
+      rewards: [{ type: 'unlock_door', targetId: 'door_final' }],
+      interactableIds: ['plate_c_dog', 'plate_c_panda', 'door_final'],
+      checkpoint: {
+        zone: { min: { x: 16, y: 10, z: 0 }, max: { x: 23, y: 18, z: 0 } },
+        spawns: { dog: { x: 16.5, y: 14.5, z: 0 }, panda: { x: 16.5, y: 16.5, z: 0 } },
+      },
     },
   ];
 
+  // === LOGIC ===
+  const logic: LogicNodeConfig[] = [
+    // Laser is off while something heavy holds plate A down
+    { id: 'laser_a_off', type: 'not', inputs: ['plate_a'] },
+    // Final door needs both players on their plates at once, then stays open
+    // like puzzle C's unlock reward - stepping off mustn't lock it again
+    { id: 'both_plates_c', type: 'and', inputs: ['plate_c_dog', 'plate_c_panda'] },
+    { id: 'door_final_opened', type: 'latch', inputs: ['both_plates_c'] },
+    { id: 'door_final_locked', type: 'not', inputs: ['door_final_opened'] },
+  ];
+
+  const wires: SignalWire[] = [
+    { from: 'laser_a_off', to: 'hazard_laser_a', input: 'active' },
+    { from: 'lever_power_b', to: 'winch_b', input: 'power' },
+    { from: 'winch_b.extended', to: 'platform_bridge_b', input: 'position' },
+    { from: 'door_final_opened', to: 'door_final', input: 'open' },
+    { from: 'door_final_locked', to: 'door_final', input: 'lock' },
+    { from: 'button_reset_a', to: 'puzzle_a', input: 'reset' },
+  ];
+
   // Spawn positions
   const spawns = {
     dog: { x: 3, y: 5, z: 0 } as WorldPos,
@@ -426,6 +483,8 @@ export function createVerticalSliceLevel(): LevelData {
     spawns,
     interactables,
     puzzles,
+    logic,
+    wires,
     cameraNodes: [
       {
         id: 'camera_a',
@@ -452,5 +511,13 @@ export function createVerticalSliceLevel(): LevelData {
         viewRadius: 7,
       },
     ],
+    completion: {
+      requiredPuzzles: ['puzzle_a', 'puzzle_b', 'puzzle_c'],
+      // Grass exit marker behind the final door
+      exitZone: {
+        min: { x: 26, y: 13, z: 0 },
+        max: { x: 27, y: 16, z: 0 },
+      },
+    },
   };
 }
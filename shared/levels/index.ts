@@ -21,8 +21,18 @@ export function getLevel(levelId: string): LevelData | null {
   return factory();
 }
 
+// Order levels are played in - Continue after the last one starts over
+const LEVEL_SEQUENCE: string[] = [
+  'vertical_slice',
+];
+
 export function getLevelList(): string[] {
   return Object.keys(LEVEL_REGISTRY);
 }
 
+export function getNextLevelId(levelId: string): string {
+  const index = LEVEL_SEQUENCE.indexOf(levelId);
+  return LEVEL_SEQUENCE[(index + 1) % LEVEL_SEQUENCE.length];
+}
+
 export { createVerticalSliceLevel };
@@ -0,0 +1,413 @@
+/**
+ * Panda & Dog - Character Movement
+ * Movement simulation shared by the authoritative server and client prediction
+ */
+
+import type {
+  Direction8,
+  EntityState,
+  InputState,
+  InteractableState,
+  LevelData,
+  Role,
+  TileData,
+  WorldPos,
+} from './types';
+import {
+  DOG,
+  PANDA,
+  FIXED_TIMESTEP,
+  GRAVITY,
+  MAX_FALL_SPEED,
+  MAX_STEP_HEIGHT,
+} from './constants';
+
+// ============================================
+// Types
+// ============================================
+
+// Axis-aligned area in tile coordinates
+export interface Box {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// Standable area that isn't part of the tile grid, e.g. the top of a platform
+export interface Surface extends Box {
+  z: number;
+}
+
+// Something characters can't overlap - entities skip the obstacle carrying their own id
+export type Obstacle =
+  | (Box & { shape: 'box'; id?: string })
+  | { shape: 'circle'; id?: string; x: number; y: number; radius: number };
+
+export type MovementLevel = Pick<LevelData, 'width' | 'height' | 'tiles'> & {
+  surfaces?: Surface[];
+  obstacles?: Obstacle[];
+};
+
+// ============================================
+// Constants
+// ============================================
+
+// Each input message covers one client fixed step of simulated time
+export const INPUT_STEP = FIXED_TIMESTEP / 1000;
+
+// Keep characters this far away from the outer edge of the level
+const LEVEL_EDGE_MARGIN = 1.5;
+
+// Keeps points on a tile's far edge inside that tile
+const TILE_EDGE_EPSILON = 1e-6;
+
+// ============================================
+// Helpers
+// ============================================
+
+export function getMoveSpeed(role: Role, run: boolean): number {
+  if (role === 'dog') {
+    return run ? DOG.RUN_SPEED : DOG.WALK_SPEED;
+  }
+  return run ? PANDA.RUN_SPEED : PANDA.WALK_SPEED;
+}
+
+export function getDirection(x: number, y: number): Direction8 {
+  if (y < 0 && x === 0) return 'N';
+  if (y < 0 && x > 0) return 'NE';
+  if (y === 0 && x > 0) return 'E';
+  if (y > 0 && x > 0) return 'SE';
+  if (y > 0 && x === 0) return 'S';
+  if (y > 0 && x < 0) return 'SW';
+  if (y === 0 && x < 0) return 'W';
+  if (y < 0 && x < 0) return 'NW';
+  return 'S';
+}
+
+export function getCollisionRadius(role: Role): number {
+  return role === 'dog' ? DOG.COLLISION_RADIUS : PANDA.COLLISION_RADIUS;
+}
+
+export function getJumpForce(role: Role): number {
+  return role === 'dog' ? DOG.JUMP_FORCE : PANDA.JUMP_FORCE;
+}
+
+function getTile(level: MovementLevel, x: number, y: number): TileData | null {
+  const tileX = Math.floor(x);
+  const tileY = Math.floor(y);
+
+  // Out of bounds is not walkable
+  if (tileY < 0 || tileY >= level.tiles.length) return null;
+
+  const row = level.tiles[tileY];
+  if (!row || tileX < 0 || tileX >= row.length) return null;
+
+  return row[tileX];
+}
+
+export function isTileWalkable(level: MovementLevel | null, x: number, y: number): boolean {
+  if (!level) return true;
+  return getTile(level, x, y)?.walkable === true;
+}
+
+/**
+ * Whether a position lies on a tile inside a zone given in tile coordinates, inclusive
+ */
+export function isInZone(pos: WorldPos, zone: { min: WorldPos; max: WorldPos }): boolean {
+  const tileX = Math.floor(pos.x);
+  const tileY = Math.floor(pos.y);
+  return tileX >= zone.min.x && tileX <= zone.max.x && tileY >= zone.min.y && tileY <= zone.max.y;
+}
+
+/**
+ * Height of the floor under (x, y) for a character currently at height z,
+ * or null if it can't go there - unwalkable, or a ledge too tall to step onto
+ */
+export function getFloorHeight(level: MovementLevel | null, x: number, y: number, z: number): number | null {
+  if (!level) return 0;
+
+  const reach = z + MAX_STEP_HEIGHT;
+  let floor: number | null = null;
+
+  const tile = getTile(level, x, y);
+  if (tile?.walkable) {
+    if (tile.elevation > reach) return null;
+    floor = tile.elevation;
+  }
+
+  // Surfaces overhead are walked under, not climbed, and ones sunk below the
+  // tile they sit in - a retracted bridge under the water - aren't reachable
+  for (const surface of level.surfaces ?? []) {
+    if (x < surface.minX || x >= surface.maxX || y < surface.minY || y >= surface.maxY) continue;
+    if (surface.z > reach) continue;
+    if (tile && surface.z < tile.elevation) continue;
+    floor = floor === null ? surface.z : Math.max(floor, surface.z);
+  }
+
+  return floor;
+}
+
+/**
+ * Area an interactable covers - centred on its position, one tile unless state.size says otherwise
+ */
+export function getFootprint(interactable: InteractableState): Box {
+  const size = (interactable.state as { size?: { x: number; y: number } }).size ?? { x: 1, y: 1 };
+  const pos: WorldPos = interactable.position;
+  return {
+    minX: pos.x - size.x / 2,
+    minY: pos.y - size.y / 2,
+    maxX: pos.x + size.x / 2,
+    maxY: pos.y + size.y / 2,
+  };
+}
+
+/**
+ * Distance from the first waypoint to each waypoint along a platform's path.
+ * Looping paths get one extra entry for the way back to the start.
+ */
+export function getWaypointDistances(waypoints: WorldPos[], loop = false): number[] {
+  const points = loop ? [...waypoints, waypoints[0]] : waypoints;
+  const distances = [0];
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    distances.push(distances[i - 1] + Math.hypot(b.x - a.x, b.y - a.y, b.z - a.z));
+  }
+  return distances;
+}
+
+/**
+ * Point a fraction t (0-1) of the way along a platform's path, measured by distance
+ */
+export function getWaypointPosition(waypoints: WorldPos[], t: number, loop = false): WorldPos {
+  const points = loop ? [...waypoints, waypoints[0]] : waypoints;
+  const distances = getWaypointDistances(waypoints, loop);
+  const target = Math.max(0, Math.min(1, t)) * distances[distances.length - 1];
+
+  for (let i = 1; i < points.length; i++) {
+    if (target > distances[i] && i < points.length - 1) continue;
+
+    const a = points[i - 1];
+    const b = points[i];
+    const length = distances[i] - distances[i - 1];
+    const f = length > 0 ? (target - distances[i - 1]) / length : 0;
+    return {
+      x: a.x + (b.x - a.x) * f,
+      y: a.y + (b.y - a.y) * f,
+      z: a.z + (b.z - a.z) * f,
+    };
+  }
+
+  return { ...points[0] };
+}
+
+/**
+ * Standable tops of platform interactables
+ */
+export function getPlatformSurfaces(interactables: Iterable<InteractableState>): Surface[] {
+  const surfaces: Surface[] = [];
+  for (const interactable of interactables) {
+    if (interactable.type !== 'platform') continue;
+    surfaces.push({ ...getFootprint(interactable), z: interactable.position.z });
+  }
+  return surfaces;
+}
+
+function isSolid(interactable: InteractableState): boolean {
+  const state = interactable.state as Record<string, unknown>;
+  switch (interactable.type) {
+    case 'door':
+      return state.open !== true;
+    case 'crate':
+    case 'winch':
+      return true;
+    case 'hazard':
+      return state.active === true && state.hazardType === 'laser';
+    default:
+      return false;
+  }
+}
+
+/**
+ * Closed doors, crates, winches and active lasers. Other hazards don't block -
+ * they knock out whoever walks in.
+ */
+export function getInteractableObstacles(interactables: Iterable<InteractableState>): Obstacle[] {
+  const obstacles: Obstacle[] = [];
+  for (const interactable of interactables) {
+    if (!isSolid(interactable)) continue;
+    obstacles.push({ shape: 'box', id: interactable.id, ...getFootprint(interactable) });
+  }
+  return obstacles;
+}
+
+/**
+ * Character bodies, so Dog and Panda can block each other
+ */
+export function getCharacterObstacles(entities: Iterable<EntityState>): Obstacle[] {
+  const obstacles: Obstacle[] = [];
+  for (const entity of entities) {
+    obstacles.push({
+      shape: 'circle',
+      id: entity.id,
+      x: entity.position.x,
+      y: entity.position.y,
+      radius: getCollisionRadius(entity.type),
+    });
+  }
+  return obstacles;
+}
+
+function distanceToObstacle(obstacle: Obstacle, x: number, y: number): number {
+  if (obstacle.shape === 'circle') {
+    return Math.hypot(x - obstacle.x, y - obstacle.y) - obstacle.radius;
+  }
+  const closestX = Math.max(obstacle.minX, Math.min(obstacle.maxX, x));
+  const closestY = Math.max(obstacle.minY, Math.min(obstacle.maxY, y));
+  return Math.hypot(x - closestX, y - closestY);
+}
+
+function nearestOnTile(tile: number, v: number): number {
+  return Math.max(tile, Math.min(tile + 1 - TILE_EDGE_EPSILON, v));
+}
+
+/**
+ * Whether an entity's collision circle fits at (x, y). Tiles and obstacles it
+ * already overlaps only block moves that would push it further in, so it can
+ * always step out of a door that closed on it, a partner standing on its
+ * spawn, or a ledge it's wedged against
+ */
+function canOccupy(level: MovementLevel, entity: EntityState, x: number, y: number): boolean {
+  const radius = getCollisionRadius(entity.type);
+  const { x: fromX, y: fromY, z } = entity.position;
+
+  // Circle vs tile - test the nearest point of every tile the circle touches
+  for (let tileY = Math.floor(y - radius); tileY <= Math.floor(y + radius); tileY++) {
+    for (let tileX = Math.floor(x - radius); tileX <= Math.floor(x + radius); tileX++) {
+      const nearestX = nearestOnTile(tileX, x);
+      const nearestY = nearestOnTile(tileY, y);
+      const distance = Math.hypot(x - nearestX, y - nearestY);
+      if (distance >= radius) continue;
+      if (getFloorHeight(level, nearestX, nearestY, z) !== null) continue;
+
+      const fromDistance = Math.hypot(fromX - nearestOnTile(tileX, fromX), fromY - nearestOnTile(tileY, fromY));
+      if (distance < fromDistance) return false;
+    }
+  }
+
+  // Circle vs object
+  for (const obstacle of level.obstacles ?? []) {
+    if (obstacle.id === entity.id) continue;
+
+    const distance = distanceToObstacle(obstacle, x, y);
+    if (distance >= radius) continue;
+    if (distance < distanceToObstacle(obstacle, fromX, fromY)) return false;
+  }
+
+  return true;
+}
+
+// ============================================
+// Simulation
+// ============================================
+
+/**
+ * Apply an input to an entity's velocity, facing and animation state
+ */
+export function applyInput(entity: EntityState, input: InputState): void {
+  const speed = getMoveSpeed(entity.type, input.run);
+
+  entity.velocity = {
+    x: input.moveX * speed,
+    y: input.moveY * speed,
+  };
+
+  if (input.moveX !== 0 || input.moveY !== 0) {
+    entity.facing = getDirection(input.moveX, input.moveY);
+    entity.state = input.run ? 'run' : 'walk';
+  } else {
+    entity.state = 'idle';
+  }
+
+  // Jumping needs something to push off from
+  if (input.jump && entity.grounded !== false) {
+    entity.verticalVelocity = getJumpForce(entity.type);
+    entity.grounded = false;
+  }
+}
+
+/**
+ * Move an entity by its velocity, then apply gravity
+ */
+export function stepEntity(level: MovementLevel | null, entity: EntityState, deltaTime: number): void {
+  stepHorizontal(level, entity, deltaTime);
+  stepVertical(level, entity, deltaTime);
+}
+
+/**
+ * Move in x/y, sliding along walls and ledges it runs into
+ */
+function stepHorizontal(level: MovementLevel | null, entity: EntityState, deltaTime: number): void {
+  if (entity.velocity.x === 0 && entity.velocity.y === 0) return;
+
+  if (!level) {
+    // No level data, just move freely
+    entity.position.x += entity.velocity.x * deltaTime;
+    entity.position.y += entity.velocity.y * deltaTime;
+    return;
+  }
+
+  // Calculate new positions
+  const newX = entity.position.x + entity.velocity.x * deltaTime;
+  const newY = entity.position.y + entity.velocity.y * deltaTime;
+
+  // Clamp to level bounds
+  const clampedX = Math.max(LEVEL_EDGE_MARGIN, Math.min(level.width - LEVEL_EDGE_MARGIN, newX));
+  const clampedY = Math.max(LEVEL_EDGE_MARGIN, Math.min(level.height - LEVEL_EDGE_MARGIN, newY));
+
+  // Try to move in both X and Y
+  const canMoveX = canOccupy(level, entity, clampedX, entity.position.y);
+  const canMoveY = canOccupy(level, entity, entity.position.x, clampedY);
+  const canMoveBoth = canOccupy(level, entity, clampedX, clampedY);
+
+  // Wall sliding: try moving in both directions, then individually
+  if (canMoveBoth) {
+    entity.position.x = clampedX;
+    entity.position.y = clampedY;
+  } else if (canMoveX && entity.velocity.x !== 0) {
+    // Can only move in X
+    entity.position.x = clampedX;
+  } else if (canMoveY && entity.velocity.y !== 0) {
+    // Can only move in Y
+    entity.position.y = clampedY;
+  }
+  // If neither works, entity stays in place (blocked)
+}
+
+/**
+ * Follow steps up and down while grounded, otherwise fall until landing
+ */
+export function stepVertical(level: MovementLevel | null, entity: EntityState, deltaTime: number): void {
+  const pos = entity.position;
+  const floor = getFloorHeight(level, pos.x, pos.y, pos.z) ?? pos.z;
+  const verticalVelocity = entity.verticalVelocity ?? 0;
+
+  if (verticalVelocity <= 0 && entity.grounded !== false && pos.z - floor <= MAX_STEP_HEIGHT) {
+    pos.z = floor;
+    entity.verticalVelocity = 0;
+    entity.grounded = true;
+    return;
+  }
+
+  entity.verticalVelocity = Math.max(verticalVelocity - GRAVITY * deltaTime, -MAX_FALL_SPEED);
+  pos.z += entity.verticalVelocity * deltaTime;
+
+  if (pos.z <= floor) {
+    pos.z = floor;
+    entity.verticalVelocity = 0;
+    entity.grounded = true;
+  } else {
+    entity.grounded = false;
+  }
+}
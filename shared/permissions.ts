@@ -0,0 +1,189 @@
+/**
+ * Panda & Dog - Interaction Permissions
+ * Who may do what to each kind of interactable. The server's validation, the
+ * client's prompts and the help screen all read this one table.
+ */
+
+import type { InteractableType, Role } from './types';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * A state flag that stops an action while it is set
+ */
+export interface StateBlock {
+  key: string;
+  roles?: Role[];   // Only these roles are stopped - everyone when omitted
+  reason: string;   // Told to the player when the server refuses
+  label: string;    // Names the exception on the help screen, e.g. 'heavy doors'
+}
+
+export interface ActionPermission {
+  roles: Role[];
+  blockedBy?: StateBlock[];
+}
+
+/**
+ * What the interact key does
+ */
+export interface PrimaryAction {
+  action: string;
+  prompt: string | ((state: Record<string, unknown>) => string);
+  help: string;     // Help screen wording, e.g. 'Open and close doors'
+  hold?: boolean;   // Held down rather than pressed, e.g. winches
+}
+
+export interface InteractableCapabilities {
+  actions: Partial<Record<string, ActionPermission>>;
+  primary?: PrimaryAction;
+}
+
+export interface RoleAbility {
+  type: InteractableType;
+  help: string;
+  hold: boolean;
+  exceptions: string[];
+}
+
+// ============================================
+// Capability Table
+// ============================================
+
+const BOTH: Role[] = ['dog', 'panda'];
+
+// Types with no actions are passive - plates, crates and hazards react to
+// what stands on or walks into them
+export const INTERACTION_CAPABILITIES: Record<InteractableType, InteractableCapabilities> = {
+  door: {
+    actions: {
+      toggle: {
+        roles: BOTH,
+        blockedBy: [
+          { key: 'locked', reason: 'Locked', label: 'locked doors' },
+          { key: 'requiresHeavy', roles: ['dog'], reason: 'Too heavy for Dog', label: 'heavy doors' },
+        ],
+      },
+    },
+    primary: {
+      action: 'toggle',
+      prompt: (state) => (state.open ? 'Close Door' : 'Open Door'),
+      help: 'Open and close doors',
+    },
+  },
+  lever: {
+    actions: {
+      toggle: {
+        roles: BOTH,
+        blockedBy: [
+          { key: 'requiresStrength', roles: ['dog'], reason: 'Too stiff for Dog', label: 'stiff levers' },
+        ],
+      },
+    },
+    primary: { action: 'toggle', prompt: 'Pull Lever', help: 'Pull levers' },
+  },
+  button: {
+    actions: {
+      press: { roles: BOTH },
+      release: { roles: BOTH },
+    },
+    primary: { action: 'press', prompt: 'Press Button', help: 'Press buttons' },
+  },
+  winch: {
+    actions: {
+      operate_start: { roles: ['panda'] },
+      operate_stop: { roles: ['panda'] },
+    },
+    primary: { action: 'operate_start', prompt: 'Hold to Operate Winch', help: 'Wind winches', hold: true },
+  },
+  camera_node: {
+    actions: {
+      view: { roles: ['dog'] },
+      rotate: { roles: ['dog'] },
+    },
+    primary: { action: 'view', prompt: 'View Camera', help: 'Look through cameras' },
+  },
+  pressure_plate: { actions: {} },
+  crate: { actions: {} },
+  platform: { actions: {} },
+  hazard: { actions: {} },
+};
+
+// ============================================
+// Queries
+// ============================================
+
+/**
+ * Why a role may not perform an action on an interactable in its current
+ * state, or null if it may
+ */
+export function getInteractionDenial(
+  role: Role,
+  type: InteractableType,
+  state: Record<string, unknown>,
+  action: string
+): string | null {
+  const permission = INTERACTION_CAPABILITIES[type]?.actions[action];
+  if (!permission || !permission.roles.includes(role)) {
+    return 'Permission denied';
+  }
+
+  for (const block of permission.blockedBy ?? []) {
+    if (block.roles && !block.roles.includes(role)) continue;
+    if (state[block.key]) return block.reason;
+  }
+
+  return null;
+}
+
+export function canInteract(
+  role: Role,
+  type: InteractableType,
+  state: Record<string, unknown>,
+  action: string
+): boolean {
+  return getInteractionDenial(role, type, state, action) === null;
+}
+
+export function getPrimaryAction(type: InteractableType): PrimaryAction | null {
+  return INTERACTION_CAPABILITIES[type]?.primary ?? null;
+}
+
+/**
+ * Prompt for the interact key, or null if the role can't use it right now
+ */
+export function getInteractionPrompt(
+  role: Role,
+  type: InteractableType,
+  state: Record<string, unknown>
+): string | null {
+  const primary = getPrimaryAction(type);
+  if (!primary || !canInteract(role, type, state, primary.action)) return null;
+
+  return typeof primary.prompt === 'string' ? primary.prompt : primary.prompt(state);
+}
+
+/**
+ * Everything a role can do with the interact key, for the help screen
+ */
+export function getRoleAbilities(role: Role): RoleAbility[] {
+  const abilities: RoleAbility[] = [];
+
+  for (const [type, capabilities] of Object.entries(INTERACTION_CAPABILITIES) as [InteractableType, InteractableCapabilities][]) {
+    const primary = capabilities.primary;
+    const permission = primary && capabilities.actions[primary.action];
+    if (!primary || !permission || !permission.roles.includes(role)) continue;
+
+    abilities.push({
+      type,
+      help: primary.help,
+      hold: primary.hold ?? false,
+      exceptions: (permission.blockedBy ?? [])
+        .filter((block) => !block.roles || block.roles.includes(role))
+        .map((block) => block.label),
+    });
+  }
+
+  return abilities;
+}
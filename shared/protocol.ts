@@ -7,14 +7,14 @@ import type {
   Role,
   InputState,
   GameState,
-  EntityState,
-  InteractableState,
   PingMarker,
   PingType,
   RoomState,
   WorldPos,
-  PuzzleState,
+  GameEvent,
 } from './types';
+import type { GameStateDelta } from './delta';
+import type { CodecName } from './codec';
 
 // ============================================
 // Message Base
@@ -29,6 +29,13 @@ export interface BaseMessage {
 // Client -> Server Messages
 // ============================================
 
+// First message on every connection - nothing else is accepted before it
+export interface HelloMessage extends BaseMessage {
+  type: 'hello';
+  version: string;    // Client's PROTOCOL.VERSION
+  codecs: string[];   // Supported codecs, most preferred first
+}
+
 export interface CreateRoomMessage extends BaseMessage {
   type: 'create_room';
   levelId: string;
@@ -40,13 +47,21 @@ export interface JoinRoomMessage extends BaseMessage {
   preferredRole?: Role;
 }
 
+// Reclaim a held role slot after a dropped connection
+export interface ResumeSessionMessage extends BaseMessage {
+  type: 'resume_session';
+  roomCode: string;
+  sessionToken: string;
+}
+
 export interface LeaveRoomMessage extends BaseMessage {
   type: 'leave_room';
 }
 
 export interface InputMessage extends BaseMessage {
   type: 'input';
-  tick: number;
+  tick: number;        // Last state tick the client applied - acknowledges delta baselines
+  sequence: number;    // Increments per input, acknowledged via EntityState.lastProcessedInput
   input: InputState;
   position: WorldPos;  // Client's predicted position for reconciliation
 }
@@ -79,18 +94,36 @@ export interface ReadyMessage extends BaseMessage {
   type: 'ready';
 }
 
+// Host only - stop the start countdown
+export interface CancelCountdownMessage extends BaseMessage {
+  type: 'cancel_countdown';
+}
+
+// After level_complete - either player moves the room on to the next level
+export interface ContinueLevelMessage extends BaseMessage {
+  type: 'continue_level';
+}
+
 export interface PauseMessage extends BaseMessage {
   type: 'pause';
   paused: boolean;
 }
 
+// From the pause menu - the current puzzle resets once both players vote for it
+export interface ResetVoteMessage extends BaseMessage {
+  type: 'reset_vote';
+  vote: boolean;
+}
+
 export interface HeartbeatMessage extends BaseMessage {
   type: 'heartbeat';
 }
 
 export type ClientMessage =
+  | HelloMessage
   | CreateRoomMessage
   | JoinRoomMessage
+  | ResumeSessionMessage
   | LeaveRoomMessage
   | InputMessage
   | InteractMessage
@@ -98,31 +131,53 @@ export type ClientMessage =
   | ClearPingMessage
   | SurveillanceMessage
   | ReadyMessage
+  | CancelCountdownMessage
+  | ContinueLevelMessage
   | PauseMessage
+  | ResetVoteMessage
   | HeartbeatMessage;
 
 // ============================================
 // Server -> Client Messages
 // ============================================
 
+// Handshake accepted - both sides switch to the chosen codec after this
+export interface WelcomeMessage extends BaseMessage {
+  type: 'welcome';
+  version: string;
+  codec: CodecName;
+}
+
 export interface RoomCreatedMessage extends BaseMessage {
   type: 'room_created';
   roomCode: string;
   qrCodeUrl: string;
   role: Role;
+  levelId: string;
+  sessionToken: string;  // Present with resume_session to reconnect
 }
 
 export interface RoomJoinedMessage extends BaseMessage {
   type: 'room_joined';
   roomCode: string;
   role: Role;
+  levelId: string;       // Clients build their tilemap from the shared level registry
   roomState: RoomState;
   gameState: GameState;
+  sessionToken: string;
+}
+
+// Reply to resume_session - a full_state follows
+export interface SessionResumedMessage extends BaseMessage {
+  type: 'session_resumed';
+  roomCode: string;
+  role: Role;
+  roomState: RoomState;
 }
 
 export interface RoomErrorMessage extends BaseMessage {
   type: 'room_error';
-  error: 'not_found' | 'full' | 'role_taken' | 'invalid_code' | 'connection_failed';
+  error: 'not_found' | 'full' | 'role_taken' | 'invalid_code' | 'connection_failed' | 'session_expired';
   message: string;
 }
 
@@ -142,20 +197,25 @@ export interface PlayerReconnectedMessage extends BaseMessage {
   role: Role;
 }
 
+// Lobby ready-check state, sent whenever it changes
+export interface ReadyStateMessage extends BaseMessage {
+  type: 'ready_state';
+  ready: Record<Role, boolean>;
+  countdown: number | null;  // Ms until game_start, null when not counting down
+}
+
 export interface GameStartMessage extends BaseMessage {
   type: 'game_start';
+  levelId: string;
   gameState: GameState;
 }
 
-export interface StateUpdateMessage extends BaseMessage {
+// Delta against a snapshot the client acknowledged (or the last keyframe)
+export interface StateUpdateMessage extends BaseMessage, GameStateDelta {
   type: 'state_update';
-  tick: number;
-  entities: EntityState[];
-  interactables: InteractableState[];
-  pings: PingMarker[];
-  puzzleStates?: PuzzleState[];
 }
 
+// Keyframe - replaces the client's state entirely
 export interface FullStateMessage extends BaseMessage {
   type: 'full_state';
   gameState: GameState;
@@ -192,6 +252,40 @@ export interface LevelCompleteMessage extends BaseMessage {
   puzzlesCompleted: number;
   totalPuzzles: number;
   timeElapsed: number;
+  nextLevelId: string;  // Loaded when a player sends continue_level
+}
+
+// A character walked into an active hazard and is out until respawnTick
+export interface CharacterKnockedOutMessage extends BaseMessage {
+  type: 'character_knocked_out';
+  role: Role;
+  hazardId: string;
+  respawnTick: number;
+}
+
+export interface CharacterRespawnedMessage extends BaseMessage {
+  type: 'character_respawned';
+  role: Role;
+  position: WorldPos;
+}
+
+// Reset vote state, sent whenever a vote changes
+export interface ResetVoteStateMessage extends BaseMessage {
+  type: 'reset_vote_state';
+  puzzleId: string | null;  // Puzzle a successful vote would reset
+  votes: Role[];
+}
+
+// A puzzle went back to its starting state, by button or by vote
+export interface PuzzleResetMessage extends BaseMessage {
+  type: 'puzzle_reset';
+  puzzleId: string;
+}
+
+// Everything noteworthy that happened since the last tick's batch
+export interface GameEventsMessage extends BaseMessage {
+  type: 'game_events';
+  events: GameEvent[];
 }
 
 export interface GamePausedMessage extends BaseMessage {
@@ -200,10 +294,19 @@ export interface GamePausedMessage extends BaseMessage {
   pausedBy: Role;
 }
 
+export type ServerErrorCode =
+  | 'incompatible_version'
+  | 'unsupported_codec'
+  | 'handshake_required'
+  | 'invalid_message'
+  | 'message_too_large';
+
 export interface ServerErrorMessage extends BaseMessage {
   type: 'server_error';
-  error: string;
-  fatal: boolean;
+  code: ServerErrorCode;
+  error: string;           // Human-readable, shown to the player
+  fatal: boolean;          // Connection is closed after a fatal error
+  rejectedType?: string;   // Type of the client message that was rejected
 }
 
 export interface HeartbeatAckMessage extends BaseMessage {
@@ -212,12 +315,15 @@ export interface HeartbeatAckMessage extends BaseMessage {
 }
 
 export type ServerMessage =
+  | WelcomeMessage
   | RoomCreatedMessage
   | RoomJoinedMessage
+  | SessionResumedMessage
   | RoomErrorMessage
   | PlayerJoinedMessage
   | PlayerLeftMessage
   | PlayerReconnectedMessage
+  | ReadyStateMessage
   | GameStartMessage
   | StateUpdateMessage
   | FullStateMessage
@@ -226,6 +332,11 @@ export type ServerMessage =
   | PingExpiredMessage
   | PuzzleUpdateMessage
   | LevelCompleteMessage
+  | CharacterKnockedOutMessage
+  | CharacterRespawnedMessage
+  | ResetVoteStateMessage
+  | PuzzleResetMessage
+  | GameEventsMessage
   | GamePausedMessage
   | ServerErrorMessage
   | HeartbeatAckMessage;
@@ -235,19 +346,23 @@ export type ServerMessage =
 // ============================================
 
 export const PROTOCOL = {
-  VERSION: '1.0.0',
+  VERSION: '2.0.0',
 
   // Tick rates
   SERVER_TICK_RATE: 20,      // 20 Hz server simulation
   CLIENT_SEND_RATE: 20,      // 20 Hz input send rate
   STATE_SEND_RATE: 20,       // 20 Hz state broadcast
+  KEYFRAME_INTERVAL: 100,    // Ticks between full_state keyframes (5 seconds)
+  STATE_HISTORY_TICKS: 40,   // Snapshots kept as delta baselines (2 seconds)
 
   // Timeouts
   HEARTBEAT_INTERVAL: 5000,  // 5 seconds
   RECONNECT_WINDOW: 20000,   // 20 seconds to reconnect
+  START_COUNTDOWN: 5000,     // Both ready -> game_start, time to pick up the phone
   ROOM_TIMEOUT: 300000,      // 5 minutes room idle timeout
 
   // Limits
+  INPUT_BUFFER_SIZE: 30,     // Unprocessed inputs held per player
   MAX_PINGS_PER_PLAYER: 5,
   PING_COOLDOWN: 500,        // 500ms between pings
   PING_LIFETIME: 10000,      // 10 seconds default
@@ -263,6 +378,7 @@ export const PROTOCOL = {
 
 export type MessageType = ClientMessage['type'] | ServerMessage['type'];
 
+// Shallow type guard only - untrusted input goes through validateClientMessage
 export function isClientMessage(msg: unknown): msg is ClientMessage {
   return typeof msg === 'object' && msg !== null && 'type' in msg && 'timestamp' in msg;
 }
@@ -31,9 +31,13 @@ export interface EntityState {
   type: 'dog' | 'panda';
   position: WorldPos;
   velocity: Vec2;
+  verticalVelocity?: number;  // Elevation per second, positive is up
+  grounded?: boolean;         // Standing on a tile or platform - may jump
   facing: Direction8;
   state: string;
   animation?: string;
+  lastProcessedInput?: number;  // Sequence of the last input the server applied
+  items?: string[];             // Granted by puzzle rewards
 }
 
 export interface InputState {
@@ -90,8 +94,10 @@ export interface PressurePlateState extends InteractableState {
   type: 'pressure_plate';
   state: {
     activated: boolean;
-    weightThreshold: 'light' | 'heavy';  // light = either, heavy = Panda/crate only
+    weightThreshold: 'light' | 'heavy' | number;  // light = anything, heavy = Panda/crate, or a total weight
     currentWeight: number;
+    activationDelay?: number;    // Ms overrides for PRESSURE_PLATE delays
+    deactivationDelay?: number;
   };
 }
 
@@ -111,7 +117,8 @@ export interface WinchState extends InteractableState {
     extended: number;  // 0.0 to 1.0
     operating: boolean;
     requiresPower: boolean;  // Needs Dog to enable power
-    poweredById?: string;    // ID of power source
+    powered?: boolean;       // Set through the winch's 'power' input
+    ratchet?: boolean;       // Holds its extension when released instead of unwinding
   };
 }
 
@@ -123,20 +130,27 @@ export interface CameraNodeState extends InteractableState {
     minRotation: number;
     maxRotation: number;
     viewingPlayerId?: string;  // Dog viewing this camera
+    rotateDirection?: -1 | 0 | 1;  // Rotation the viewer is holding
   };
 }
 
 export interface PlatformState extends InteractableState {
   type: 'platform';
   state: {
-    currentPosition: number;  // 0.0 to 1.0 along path
+    currentPosition: number;  // 0.0 to 1.0 along path, by distance
     moving: boolean;
     direction: 1 | -1;
-    speed: number;
+    speed: number;            // Tiles per second
     waypoints: WorldPos[];
+    mode?: PlatformMode;      // Defaults to ping_pong
+    pauseMs?: number;         // Wait at each waypoint, defaults to PLATFORM.PAUSE_AT_ENDS
   };
 }
 
+// loop: last waypoint runs back to the first; ping_pong: reverse at the ends;
+// once: stop at the far end
+export type PlatformMode = 'loop' | 'ping_pong' | 'once';
+
 export interface ButtonState extends InteractableState {
   type: 'button';
   state: {
@@ -151,8 +165,9 @@ export interface HazardState extends InteractableState {
   state: {
     active: boolean;
     hazardType: 'laser' | 'spikes' | 'electric';
-    cycleTime?: number;  // For cycling hazards
-    cycleOffset?: number;
+    cycleTime?: number;    // Ms for a full cycle - on for the first half, off for the second
+    cycleOffset?: number;  // Ms into the cycle the level starts at
+    enabled?: boolean;     // Cycling only - false holds it off; a wire to 'active' sets this
   };
 }
 
@@ -221,6 +236,7 @@ export interface GameState {
 export interface PuzzleState {
   id: string;
   name: string;
+  available: boolean;  // Prerequisites met - hidden from players until then
   completed: boolean;
   objectives: ObjectiveState[];
 }
@@ -232,6 +248,33 @@ export interface ObjectiveState {
   optional: boolean;
 }
 
+// ============================================
+// Game Events
+// ============================================
+
+export type InteractableEventKind =
+  | 'plate_pressed'
+  | 'plate_released'
+  | 'door_opened'
+  | 'door_closed'
+  | 'lever_toggled'
+  | 'button_pressed'
+  | 'winch_started'
+  | 'winch_stopped'
+  | 'hazard_enabled'
+  | 'hazard_disabled'
+  | 'crate_moved';
+
+// Gameplay moments the server noticed during a tick - state already carries
+// the result, these say when it happened so clients can play sounds and effects
+export type GameEvent =
+  | { kind: InteractableEventKind; tick: number; interactableId: string; position: WorldPos }
+  | { kind: 'objective_completed'; tick: number; puzzleId: string; objectiveId: string }
+  | { kind: 'puzzle_completed'; tick: number; puzzleId: string }
+  | { kind: 'puzzle_available'; tick: number; puzzleId: string }
+  | { kind: 'area_revealed'; tick: number; areaId: string; name: string; zone: { min: WorldPos; max: WorldPos } }
+  | { kind: 'item_granted'; tick: number; item: string; role: Role };
+
 // ============================================
 // Level Definition
 // ============================================
@@ -249,6 +292,18 @@ export interface LevelData {
   interactables: InteractableConfig[];
   puzzles: PuzzleConfig[];
   cameraNodes?: CameraNodeConfig[];
+  completion?: LevelCompletion;
+  logic?: LogicNodeConfig[];
+  wires?: SignalWire[];
+}
+
+// When the level counts as won - checked by the server every tick
+export interface LevelCompletion {
+  requiredPuzzles?: string[];  // Puzzle IDs, defaults to every puzzle in the level
+  exitZone?: {                 // Tile box both players must stand in, inclusive
+    min: WorldPos;
+    max: WorldPos;
+  };
 }
 
 export interface TileData {
@@ -274,6 +329,38 @@ export interface InteractableConfig {
   linkedIds?: string[];
 }
 
+// ============================================
+// Logic Graph
+// ============================================
+
+// 'plate_a' reads an interactable's or node's default output, 'winch_b.extended' a named one
+export type SignalRef = string;
+
+export type LogicNodeType =
+  | 'and'
+  | 'or'
+  | 'not'
+  | 'xor'
+  | 'delay'     // Input, durationMs later
+  | 'pulse'     // On for durationMs after the input turns on
+  | 'latch'     // inputs[0] sets, inputs[1] resets
+  | 'counter';  // On after count rising edges on inputs[0], inputs[1] resets
+
+export interface LogicNodeConfig {
+  id: string;
+  type: LogicNodeType;
+  inputs: SignalRef[];
+  durationMs?: number;  // delay, pulse
+  count?: number;       // counter, defaults to 1
+}
+
+// Drives an interactable input whenever the source signal changes
+export interface SignalWire {
+  from: SignalRef;
+  to: string;      // Interactable ID
+  input: string;   // e.g. 'open' on a door, 'power' on a winch
+}
+
 export interface PuzzleConfig {
   id: string;
   name: string;
@@ -284,15 +371,51 @@ export interface PuzzleConfig {
     condition: PuzzleCondition;
     optional?: boolean;
   }[];
-  completionReward?: string;  // ID of thing to unlock
+  rewards?: PuzzleReward[];    // Applied in order when the puzzle is solved
+  prerequisites?: string[];    // Puzzles to solve first - until then this one is hidden and inert
+  interactableIds?: string[];  // Restored to their level config when the puzzle resets
+  checkpoint?: PuzzleCheckpoint;
+}
+
+export type PuzzleReward =
+  | { type: 'set_state'; targetId: string; state: Record<string, unknown> }
+  | { type: 'unlock_door'; targetId: string; open?: boolean }  // Opens it too unless open is false
+  | { type: 'spawn_interactable'; interactable: InteractableConfig }
+  | { type: 'enable_puzzle'; puzzleId: string }                 // Regardless of its prerequisites
+  | { type: 'reveal_area'; areaId: string; name: string; zone: { min: WorldPos; max: WorldPos } }
+  | { type: 'grant_item'; item: string; role?: Role };          // Both roles when omitted
+
+// Reaching the zone makes this puzzle the one characters respawn and reset into
+export interface PuzzleCheckpoint {
+  zone: { min: WorldPos; max: WorldPos };  // Tile coordinates, inclusive
+  spawns: { dog: WorldPos; panda: WorldPos };
 }
 
-export interface PuzzleCondition {
-  type: 'interactable_state' | 'both_players_in_zone' | 'all_objectives';
-  targetId?: string;
-  state?: Record<string, unknown>;
-  zoneMin?: WorldPos;
-  zoneMax?: WorldPos;
+// Conditions are checked every tick. The ones that watch events (sequence,
+// count) remember what they've seen until the puzzle resets.
+export type PuzzleCondition =
+  // Every listed state key has exactly this value
+  | { type: 'interactable_state'; targetId: string; state: Record<string, unknown> }
+  // A numeric state key, e.g. a winch's extended, compared with a value
+  | { type: 'compare'; targetId: string; key: string; op: '>=' | '<=' | '>' | '<'; value: number }
+  // Tile coordinates, inclusive
+  | { type: 'role_in_zone'; role: Role; zone: { min: WorldPos; max: WorldPos } }
+  | { type: 'both_players_in_zone'; zoneMin: WorldPos; zoneMax: WorldPos }
+  // A grant_item reward gave this item to the role, or to either role when omitted
+  | { type: 'has_item'; item: string; role?: Role }
+  // The sub-condition has been true for at least this many ticks in a row
+  | { type: 'held'; condition: PuzzleCondition; ticks: number }
+  // These events happened in this order, optionally all within a window
+  | { type: 'sequence'; events: GameEventMatch[]; withinTicks?: number }
+  // A matching event happened at least this many times
+  | { type: 'count'; event: GameEventMatch; count: number }
+  | { type: 'and'; conditions: PuzzleCondition[] }
+  | { type: 'or'; conditions: PuzzleCondition[] }
+  | { type: 'not'; condition: PuzzleCondition };
+
+export interface GameEventMatch {
+  kind: GameEvent['kind'];
+  targetId?: string;  // Interactable, puzzle, objective, area or item ID, depending on the kind
 }
 
 export interface CameraNodeConfig {
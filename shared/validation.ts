@@ -0,0 +1,246 @@
+/**
+ * Panda & Dog - Message Validation
+ * Runtime checks for everything a client can send. Decoded messages are
+ * untrusted until they pass validateClientMessage.
+ */
+
+import type { PingType, Role } from './types';
+import type { ClientMessage } from './protocol';
+import { PROTOCOL } from './protocol';
+
+export type ValidationResult =
+  | { ok: true; message: ClientMessage }
+  | { ok: false; type: string | null; reason: string };
+
+// ============================================
+// Limits
+// ============================================
+
+export const VALIDATION = {
+  MAX_MESSAGE_BYTES: 4096,
+  MAX_ID_LENGTH: 64,          // Interactable, ping and level IDs
+  MAX_ACTION_LENGTH: 32,
+  MAX_TOKEN_LENGTH: 64,
+  MAX_VERSION_LENGTH: 16,
+  MAX_CODECS: 8,
+  MAX_CODEC_NAME_LENGTH: 16,
+  MAX_COORDINATE: 10000,      // Tiles - far outside any level
+} as const;
+
+// Keyed by the union so adding a ping type without listing it here fails to compile
+const PING_TYPES: Record<PingType, true> = {
+  look: true,
+  go: true,
+  wait: true,
+  interact: true,
+  danger: true,
+};
+
+const ROLES: Record<Role, true> = {
+  dog: true,
+  panda: true,
+};
+
+// ============================================
+// Field Checks
+// ============================================
+
+// Each check returns a reason string when the value is invalid, null otherwise
+type Check = (value: unknown) => string | null;
+
+type Fields = Record<string, unknown>;
+
+function isObject(value: unknown): value is Fields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const finite: Check = (value) =>
+  typeof value === 'number' && Number.isFinite(value) ? null : 'must be a finite number';
+
+const boolean: Check = (value) =>
+  typeof value === 'boolean' ? null : 'must be a boolean';
+
+const counter: Check = (value) =>
+  Number.isSafeInteger(value) && (value as number) >= 0 ? null : 'must be a non-negative integer';
+
+function range(min: number, max: number): Check {
+  return (value) => {
+    const error = finite(value);
+    if (error) return error;
+    const n = value as number;
+    return n >= min && n <= max ? null : `must be between ${min} and ${max}`;
+  };
+}
+
+function string(maxLength: number, minLength = 1): Check {
+  return (value) => {
+    if (typeof value !== 'string') return 'must be a string';
+    if (value.length < minLength) return 'must not be empty';
+    if (value.length > maxLength) return `must be at most ${maxLength} characters`;
+    return null;
+  };
+}
+
+function oneOf(values: Record<string, true>): Check {
+  return (value) =>
+    typeof value === 'string' && Object.prototype.hasOwnProperty.call(values, value)
+      ? null
+      : `must be one of ${Object.keys(values).join(', ')}`;
+}
+
+function optional(check: Check): Check {
+  return (value) => (value === undefined ? null : check(value));
+}
+
+function object(shape: Record<string, Check>): Check {
+  return (value) => {
+    if (!isObject(value)) return 'must be an object';
+    for (const [key, check] of Object.entries(shape)) {
+      const error = check(value[key]);
+      if (error) return `${key} ${error}`;
+    }
+    return null;
+  };
+}
+
+function list(maxLength: number, item: Check): Check {
+  return (value) => {
+    if (!Array.isArray(value)) return 'must be an array';
+    if (value.length > maxLength) return `must have at most ${maxLength} entries`;
+    for (let i = 0; i < value.length; i++) {
+      const error = item(value[i]);
+      if (error) return `[${i}] ${error}`;
+    }
+    return null;
+  };
+}
+
+const coordinate = range(-VALIDATION.MAX_COORDINATE, VALIDATION.MAX_COORDINATE);
+
+const worldPos = object({
+  x: coordinate,
+  y: coordinate,
+  z: coordinate,
+});
+
+const inputState = object({
+  moveX: range(-1, 1),
+  moveY: range(-1, 1),
+  run: boolean,
+  jump: boolean,
+  interact: boolean,
+  surveillance: boolean,
+  operateHold: boolean,
+});
+
+// Free-form interaction payload - only flat primitive values are accepted
+const interactData: Check = (value) => {
+  if (!isObject(value)) return 'must be an object';
+  for (const [key, item] of Object.entries(value)) {
+    const type = typeof item;
+    if (item !== null && type !== 'string' && type !== 'number' && type !== 'boolean') {
+      return `${key} must be a primitive value`;
+    }
+    if (type === 'number' && !Number.isFinite(item)) return `${key} must be finite`;
+    if (type === 'string' && (item as string).length > VALIDATION.MAX_ID_LENGTH) {
+      return `${key} must be at most ${VALIDATION.MAX_ID_LENGTH} characters`;
+    }
+  }
+  return null;
+};
+
+// ============================================
+// Message Schemas
+// ============================================
+
+const SCHEMAS: Record<ClientMessage['type'], Record<string, Check>> = {
+  hello: {
+    version: string(VALIDATION.MAX_VERSION_LENGTH),
+    codecs: list(VALIDATION.MAX_CODECS, string(VALIDATION.MAX_CODEC_NAME_LENGTH)),
+  },
+  create_room: {
+    levelId: string(VALIDATION.MAX_ID_LENGTH),
+  },
+  join_room: {
+    roomCode: string(PROTOCOL.ROOM_CODE_LENGTH, PROTOCOL.ROOM_CODE_LENGTH),
+    preferredRole: optional(oneOf(ROLES)),
+  },
+  resume_session: {
+    roomCode: string(PROTOCOL.ROOM_CODE_LENGTH, PROTOCOL.ROOM_CODE_LENGTH),
+    sessionToken: string(VALIDATION.MAX_TOKEN_LENGTH),
+  },
+  leave_room: {},
+  input: {
+    tick: counter,
+    sequence: counter,
+    input: inputState,
+    position: worldPos,
+  },
+  interact: {
+    targetId: string(VALIDATION.MAX_ID_LENGTH),
+    action: string(VALIDATION.MAX_ACTION_LENGTH),
+    data: optional(interactData),
+  },
+  ping_marker: {
+    position: worldPos,
+    pingType: oneOf(PING_TYPES),
+  },
+  clear_ping: {
+    pingId: string(VALIDATION.MAX_ID_LENGTH),
+  },
+  surveillance: {
+    enabled: boolean,
+    cameraNodeId: optional(string(VALIDATION.MAX_ID_LENGTH)),
+  },
+  ready: {},
+  cancel_countdown: {},
+  continue_level: {},
+  pause: {
+    paused: boolean,
+  },
+  reset_vote: {
+    vote: boolean,
+  },
+  heartbeat: {},
+};
+
+// ============================================
+// Validation
+// ============================================
+
+/**
+ * Reject oversized frames before spending time decoding them
+ */
+export function isWithinSizeLimit(byteLength: number): boolean {
+  return byteLength <= VALIDATION.MAX_MESSAGE_BYTES;
+}
+
+/**
+ * Check a decoded message against the schema for its type
+ */
+export function validateClientMessage(value: unknown): ValidationResult {
+  if (!isObject(value)) {
+    return { ok: false, type: null, reason: 'message must be an object' };
+  }
+
+  const type = value.type;
+  if (typeof type !== 'string' || !Object.prototype.hasOwnProperty.call(SCHEMAS, type)) {
+    return {
+      ok: false,
+      type: typeof type === 'string' ? type.slice(0, VALIDATION.MAX_ACTION_LENGTH) : null,
+      reason: 'unknown message type',
+    };
+  }
+
+  const timestampError = finite(value.timestamp);
+  if (timestampError) {
+    return { ok: false, type, reason: `timestamp ${timestampError}` };
+  }
+
+  const error = object(SCHEMAS[type as ClientMessage['type']])(value);
+  if (error) {
+    return { ok: false, type, reason: error };
+  }
+
+  return { ok: true, message: value as unknown as ClientMessage };
+}